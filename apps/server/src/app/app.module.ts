@@ -3,10 +3,12 @@ import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { GameGateway } from './game.gateway';
+import { MapRegistry } from './maps/map.registry';
+import { RoomManager } from './rooms/room.manager';
 
 @Module({
   imports: [],
   controllers: [AppController],
-  providers: [AppService, GameGateway],
+  providers: [AppService, MapRegistry, RoomManager, GameGateway],
 })
 export class AppModule {}
@@ -0,0 +1,15 @@
+import { AbilityKind, OVERCHARGE_FIRE_RATE_MULTIPLIER } from '@tiny-tanks-time/protocol';
+
+export interface AbilityDefinition {
+  cooldownMs: number; // from the moment it is used
+  durationMs: number; // 0 for the dash, which is over at once
+  dashDistance?: number; // the dash stops short of anything in the way
+  fireRateMultiplier?: number; // on the fire rate cooldown while active
+}
+
+/** The shield works through the same `immuneUntil` as respawn and level-up immunity. */
+export const ABILITIES: Record<AbilityKind, AbilityDefinition> = {
+  dash: { cooldownMs: 4000, durationMs: 0, dashDistance: 200 },
+  shield: { cooldownMs: 12000, durationMs: 2500 },
+  overcharge: { cooldownMs: 15000, durationMs: 4000, fireRateMultiplier: OVERCHARGE_FIRE_RATE_MULTIPLIER },
+};
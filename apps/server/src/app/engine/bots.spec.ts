@@ -0,0 +1,70 @@
+import { BOT_ARCHETYPES, BOT_TIERS, BotSenses, botLineup, nextBotState, pickBotUpgrade } from './bots';
+import { findUpgrade } from './upgrades';
+import { UpgradeDefinition } from './game.types';
+
+const CALM: BotSenses = { hpRatio: 1, targetDistance: null, threatDistance: null, orbInReach: false };
+
+function upgrades(...ids: string[]): UpgradeDefinition[] {
+  return ids.map(id => findUpgrade(id) as UpgradeDefinition);
+}
+
+function archetype(name: string) {
+  return BOT_ARCHETYPES.find(a => a.name === name) ?? BOT_ARCHETYPES[0];
+}
+
+describe('nextBotState', () => {
+  const tier = BOT_TIERS.normal;
+
+  it('should roam, collect and engage as things come into view', () => {
+    expect(nextBotState('roam', CALM, tier)).toBe('roam');
+    expect(nextBotState('roam', { ...CALM, orbInReach: true }, tier)).toBe('collect');
+    expect(nextBotState('collect', { ...CALM, orbInReach: true, targetDistance: 400 }, tier)).toBe('engage');
+  });
+
+  it('should put fleeing enemies before fighting', () => {
+    expect(nextBotState('engage', { ...CALM, targetDistance: 400, threatDistance: 100 }, tier)).toBe('flee');
+  });
+
+  it('should retreat when hurt and hold it until well recovered', () => {
+    const hurt = { ...CALM, hpRatio: tier.retreatHpRatio - 0.05, targetDistance: 300 };
+    const healing = { ...hurt, hpRatio: tier.retreatHpRatio + 0.1 };
+
+    expect(nextBotState('engage', hurt, tier)).toBe('retreat');
+    expect(nextBotState('retreat', healing, tier)).toBe('retreat');
+    expect(nextBotState('engage', healing, tier)).toBe('engage');
+    expect(nextBotState('retreat', { ...hurt, targetDistance: null }, tier)).toBe('roam');
+  });
+
+  it('should never retreat on easy', () => {
+    expect(nextBotState('engage', { ...CALM, hpRatio: 0.05, targetDistance: 300 }, BOT_TIERS.easy)).toBe('engage');
+  });
+});
+
+describe('pickBotUpgrade', () => {
+  it('should pick the card that suits the build', () => {
+    const cards = upgrades('swiftness_1', 'titan_hull_1', 'rapid_fire_1');
+
+    expect(pickBotUpgrade(cards, archetype('Gunner'))?.id).toBe('rapid_fire_1');
+    expect(pickBotUpgrade(cards, archetype('Juggernaut'))?.id).toBe('titan_hull_1');
+    expect(pickBotUpgrade(cards, archetype('Skirmisher'))?.id).toBe('swiftness_1');
+  });
+
+  it('should always take an evolution', () => {
+    expect(pickBotUpgrade(upgrades('titan_hull_1', 'bullet_storm'), archetype('Juggernaut'))?.id).toBe('bullet_storm');
+    expect(pickBotUpgrade([], archetype('Gunner'))).toBeUndefined();
+  });
+});
+
+describe('botLineup', () => {
+  it('should share the bots out by the mix', () => {
+    expect(botLineup(8, { easy: 1, normal: 2, hard: 1 })).toEqual([
+      'easy', 'easy', 'normal', 'normal', 'normal', 'normal', 'hard', 'hard',
+    ]);
+    expect(botLineup(3, { easy: 0, normal: 0, hard: 5 })).toEqual(['hard', 'hard', 'hard']);
+  });
+
+  it('should hand leftovers to the largest shares and make an empty mix normal', () => {
+    expect(botLineup(1, { easy: 1, normal: 2, hard: 1 })).toEqual(['normal']);
+    expect(botLineup(2, { easy: 0, normal: 0, hard: 0 })).toEqual(['normal', 'normal']);
+  });
+});
@@ -0,0 +1,96 @@
+import { BotDifficulty, PlayerStats } from '@tiny-tanks-time/protocol';
+import { UpgradeDefinition, UpgradeTag } from './game.types';
+
+export type BotState = 'roam' | 'collect' | 'engage' | 'retreat' | 'flee';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'normal', 'hard'];
+
+export interface BotTier {
+  /** Replaces the matching human base stats. */
+  stats: Pick<PlayerStats, 'fireRate' | 'bulletDamage' | 'bulletSpeed' | 'moveSpeed' | 'regenRate'>;
+  aimError: number; // radians; each aim is off by up to this much either way
+  reactionMs: number; // how long it takes to notice what changed and switch state
+  sightRange: number; // humans further away go unnoticed
+  retreatHpRatio: number; // backs off from a fight below this share of max hp; 0 never does
+}
+
+export const BOT_TIERS: Record<BotDifficulty, BotTier> = {
+  easy: {
+    stats: { fireRate: 1000, bulletDamage: 6, bulletSpeed: 260, moveSpeed: 130, regenRate: 0.5 },
+    aimError: 0.35, reactionMs: 700, sightRange: 700, retreatHpRatio: 0
+  },
+  normal: {
+    stats: { fireRate: 800, bulletDamage: 8, bulletSpeed: 300, moveSpeed: 150, regenRate: 1 },
+    aimError: 0.15, reactionMs: 400, sightRange: 1000, retreatHpRatio: 0.25
+  },
+  hard: {
+    stats: { fireRate: 500, bulletDamage: 10, bulletSpeed: 360, moveSpeed: 200, regenRate: 2 },
+    aimError: 0.04, reactionMs: 150, sightRange: 1200, retreatHpRatio: 0.4
+  },
+};
+
+/** A build a bot sticks to for its whole life. */
+export interface BotArchetype {
+  name: string;
+  /** How much the bot wants each kind of upgrade; a card scores the sum over its tags. */
+  tagWeights: Record<UpgradeTag, number>;
+  preferredRange: number; // distance it tries to keep from whoever it is fighting
+}
+
+export const BOT_ARCHETYPES: BotArchetype[] = [
+  { name: 'Gunner', tagWeights: { offense: 3, defense: 1, mobility: 0.5, utility: 0.5 }, preferredRange: 250 },
+  { name: 'Juggernaut', tagWeights: { offense: 1, defense: 3, mobility: 0.5, utility: 0.5 }, preferredRange: 150 },
+  { name: 'Skirmisher', tagWeights: { offense: 1.5, defense: 0.5, mobility: 3, utility: 1 }, preferredRange: 350 },
+];
+
+// Once retreating, a bot holds off until it has this much more of its hp back.
+const RETREAT_RECOVERY = 0.25;
+
+/** What a bot noticed the last time it looked around. */
+export interface BotSenses {
+  hpRatio: number;
+  targetDistance: number | null; // nearest human in sight range
+  threatDistance: number | null; // nearest enemy close enough to run from
+  orbInReach: boolean;
+}
+
+/**
+ * The state a bot moves to from `state`: running from enemies and backing
+ * off when hurt come before fighting, fighting before collecting exp, and
+ * roaming is what is left.
+ */
+export function nextBotState(state: BotState, senses: BotSenses, tier: BotTier): BotState {
+  const threshold = tier.retreatHpRatio + (state === 'retreat' ? RETREAT_RECOVERY : 0);
+  const inDanger = senses.targetDistance !== null || senses.threatDistance !== null;
+  if (tier.retreatHpRatio > 0 && senses.hpRatio < threshold && inDanger) return 'retreat';
+  if (senses.threatDistance !== null) return 'flee';
+  if (senses.targetDistance !== null) return 'engage';
+  if (senses.orbInReach) return 'collect';
+  return 'roam';
+}
+
+/** The card that fits the build best. An evolution always wins; ties go to the earlier card. */
+export function pickBotUpgrade(cards: UpgradeDefinition[], archetype: BotArchetype): UpgradeDefinition | undefined {
+  const score = (card: UpgradeDefinition) =>
+    card.evolution ? Infinity : card.tags.reduce((sum, tag) => sum + archetype.tagWeights[tag], 0);
+  return cards.reduce<UpgradeDefinition | undefined>((best, card) => (!best || score(card) > score(best) ? card : best), undefined);
+}
+
+/**
+ * Difficulties for `count` bots, shared out in proportion to `mix` with the
+ * leftovers going to the largest remainders. An empty mix makes them all normal.
+ */
+export function botLineup(count: number, mix: Record<BotDifficulty, number>): BotDifficulty[] {
+  const total = BOT_DIFFICULTIES.reduce((sum, d) => sum + Math.max(0, mix[d]), 0);
+  if (total <= 0) return Array.from({ length: count }, () => 'normal');
+
+  const shares = BOT_DIFFICULTIES.map(d => (count * Math.max(0, mix[d])) / total);
+  const counts = shares.map(Math.floor);
+  let left = count - counts.reduce((sum, n) => sum + n, 0);
+  const byRemainder = BOT_DIFFICULTIES.map((_, i) => i).sort((a, b) => (shares[b] - counts[b]) - (shares[a] - counts[a]));
+  for (const i of byRemainder) {
+    if (left-- <= 0) break;
+    counts[i]++;
+  }
+  return BOT_DIFFICULTIES.flatMap((d, i) => Array.from({ length: counts[i] }, () => d));
+}
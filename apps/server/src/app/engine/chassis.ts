@@ -0,0 +1,34 @@
+import { ChassisKind, PlayerStats, StatusEffectKind } from '@tiny-tanks-time/protocol';
+
+/**
+ * A hull a tank is built on. Its stats replace the matching base stats before
+ * any upgrade applies, so they carry through every level and respawn; the
+ * passive is whatever else sets it apart.
+ */
+export interface ChassisDefinition {
+  stats: Partial<Pick<PlayerStats, 'maxHp' | 'fireRate' | 'bulletDamage' | 'bulletSpeed' | 'bulletRadius' | 'bulletLifeTime' | 'moveSpeed'>>;
+  passive?: {
+    abilityCooldownMultiplier?: number; // on every ability's cooldown
+    shrugsOff?: StatusEffectKind[]; // hits never leave these on the tank
+    longShot?: {
+      distance: number; // hits on anything at least this far from the tank
+      damageMultiplier: number;
+    };
+  };
+}
+
+export const CHASSIS: Record<ChassisKind, ChassisDefinition> = {
+  standard: { stats: {} },
+  scout: {
+    stats: { maxHp: 70, fireRate: 250, bulletDamage: 8, moveSpeed: 300 },
+    passive: { abilityCooldownMultiplier: 0.6 }
+  },
+  heavy: {
+    stats: { maxHp: 170, fireRate: 400, bulletDamage: 16, bulletSpeed: 300, bulletRadius: 9, moveSpeed: 180 },
+    passive: { shrugsOff: ['slow', 'stun'] }
+  },
+  artillery: {
+    stats: { maxHp: 90, fireRate: 650, bulletDamage: 22, bulletSpeed: 480, moveSpeed: 210 },
+    passive: { longShot: { distance: 500, damageMultiplier: 1.5 } }
+  },
+};
@@ -0,0 +1,62 @@
+import { effectKinds, effectMask, effectSpeedMultiplier } from '@tiny-tanks-time/protocol';
+import { ActiveEffect, EFFECT_TICK_MS, STATUS_EFFECTS, applyEffect, tickEffects } from './effects';
+
+describe('applyEffect', () => {
+  it('should refresh a burn instead of stacking it', () => {
+    const effects: ActiveEffect[] = [];
+    applyEffect(effects, 'burn', 'a');
+    tickEffects(effects, 1000);
+    applyEffect(effects, 'burn', 'b');
+
+    expect(effects).toEqual([expect.objectContaining({ kind: 'burn', stacks: 1, remainingMs: STATUS_EFFECTS.burn.durationMs, sourceId: 'b' })]);
+  });
+
+  it('should stack poison up to its cap', () => {
+    const effects: ActiveEffect[] = [];
+    for (let i = 0; i < 8; i++) applyEffect(effects, 'poison');
+
+    expect(effects).toHaveLength(1);
+    expect(effects[0].stacks).toBe(STATUS_EFFECTS.poison.maxStacks);
+  });
+
+  it('should leave a running stun alone', () => {
+    const effects: ActiveEffect[] = [];
+    applyEffect(effects, 'stun');
+    tickEffects(effects, 500);
+    applyEffect(effects, 'stun');
+
+    expect(effects[0].remainingMs).toBe(STATUS_EFFECTS.stun.durationMs - 500);
+  });
+});
+
+describe('tickEffects', () => {
+  it('should deal damage per stack every tick until the effect wears off', () => {
+    const effects: ActiveEffect[] = [];
+    applyEffect(effects, 'poison', 'a');
+    applyEffect(effects, 'poison', 'a');
+
+    const ticks = [];
+    for (let t = 0; t < STATUS_EFFECTS.poison.durationMs + 1000; t += 100) ticks.push(...tickEffects(effects, 100));
+
+    expect(ticks).toHaveLength(STATUS_EFFECTS.poison.durationMs / EFFECT_TICK_MS);
+    expect(ticks[0]).toEqual({ damage: 2 * (STATUS_EFFECTS.poison.tickDamage ?? 0), sourceId: 'a' });
+    expect(effects).toHaveLength(0);
+  });
+
+  it('should never deal damage for effects that only hinder', () => {
+    const effects: ActiveEffect[] = [];
+    applyEffect(effects, 'slow');
+
+    expect(tickEffects(effects, 1000)).toEqual([]);
+    expect(effects).toHaveLength(1);
+  });
+});
+
+describe('effect masks', () => {
+  it('should round-trip the effect kinds and combine their slowdowns', () => {
+    expect(effectKinds(effectMask(['stun', 'burn']))).toEqual(['burn', 'stun']);
+    expect(effectMask([])).toBe(0);
+    expect(effectSpeedMultiplier(['burn', 'slow'])).toBeCloseTo(0.6);
+    expect(effectSpeedMultiplier(['slow', 'stun'])).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { StatusEffectKind } from '@tiny-tanks-time/protocol';
+
+/**
+ * What happens when something that already has an effect is hit with it
+ * again: `refresh` restarts the timer, `stack` also adds a stack up to
+ * `maxStacks`, and `ignore` leaves the running one alone until it wears off.
+ */
+export type EffectStacking = 'refresh' | 'stack' | 'ignore';
+
+export interface StatusEffectDefinition {
+  durationMs: number;
+  stacking: EffectStacking;
+  maxStacks: number;
+  tickDamage?: number; // per stack, every EFFECT_TICK_MS
+  chance: number; // of a hit applying it
+}
+
+/** Movement multipliers live with the protocol so client prediction agrees. */
+export const STATUS_EFFECTS: Record<StatusEffectKind, StatusEffectDefinition> = {
+  burn: { durationMs: 3000, stacking: 'refresh', maxStacks: 1, tickDamage: 3, chance: 1 },
+  slow: { durationMs: 2000, stacking: 'refresh', maxStacks: 1, chance: 1 },
+  poison: { durationMs: 5000, stacking: 'stack', maxStacks: 5, tickDamage: 1, chance: 1 },
+  stun: { durationMs: 800, stacking: 'ignore', maxStacks: 1, chance: 0.15 },
+};
+
+export const EFFECT_TICK_MS = 500;
+
+export interface ActiveEffect {
+  kind: StatusEffectKind;
+  stacks: number;
+  remainingMs: number;
+  nextTickMs: number;
+  sourceId?: string; // the player whose hit applied it last, credited with its damage
+}
+
+/** A damage tick that came due, owed to whoever applied the effect. */
+export interface EffectTick {
+  damage: number;
+  sourceId?: string;
+}
+
+/** Puts `kind` on an entity's effect list following its stacking rule. */
+export function applyEffect(effects: ActiveEffect[], kind: StatusEffectKind, sourceId?: string) {
+  const definition = STATUS_EFFECTS[kind];
+  const active = effects.find(e => e.kind === kind);
+  if (!active) {
+    effects.push({ kind, stacks: 1, remainingMs: definition.durationMs, nextTickMs: EFFECT_TICK_MS, sourceId });
+    return;
+  }
+  if (definition.stacking === 'ignore') return;
+
+  if (definition.stacking === 'stack') {
+    active.stacks = Math.min(definition.maxStacks, active.stacks + 1);
+  }
+  active.remainingMs = definition.durationMs;
+  active.sourceId = sourceId ?? active.sourceId;
+}
+
+/** Runs the effects on for `dtMs`, dropping the ones that wore off, and returns the damage that came due. */
+export function tickEffects(effects: ActiveEffect[], dtMs: number): EffectTick[] {
+  const ticks: EffectTick[] = [];
+  for (let i = effects.length - 1; i >= 0; i--) {
+    const effect = effects[i];
+    const damage = STATUS_EFFECTS[effect.kind].tickDamage;
+    const elapsed = Math.min(dtMs, effect.remainingMs);
+    effect.nextTickMs -= elapsed;
+    while (damage && effect.nextTickMs <= 0) {
+      ticks.push({ damage: damage * effect.stacks, sourceId: effect.sourceId });
+      effect.nextTickMs += EFFECT_TICK_MS;
+    }
+
+    effect.remainingMs -= dtMs;
+    if (effect.remainingMs <= 0) effects.splice(i, 1);
+  }
+  return ticks;
+}
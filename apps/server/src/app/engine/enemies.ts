@@ -0,0 +1,122 @@
+import { EnemyType } from '@tiny-tanks-time/protocol';
+
+export interface EnemyDefinition {
+  hp: number;
+  size: number;
+  speed: [min: number, max: number]; // px/sec, rolled per enemy
+  damage: number; // per contact hit
+  /** Subtracted from every bullet that hits; a hit always does at least 1. */
+  armor: number;
+  expValue: number;
+  /** Relative chance of being picked by the spawner; 0 never spawns on its own. */
+  spawnWeight: number;
+  /** The wave the spawner starts picking this type in; the first by default. */
+  firstWave?: number;
+  ranged?: {
+    range: number; // opens fire and stops closing in at this distance
+    fireIntervalMs: number;
+    bulletSpeed: number;
+    bulletDamage: number;
+    bulletLifeTime: number;
+  };
+  charge?: {
+    range: number; // starts winding up once a target is this close
+    windupMs: number;
+    dashMs: number;
+    dashSpeed: number;
+    cooldownMs: number;
+  };
+  splitsInto?: {
+    type: EnemyType;
+    count: number;
+  };
+  boss?: BossDefinition;
+}
+
+export type BossAttack = 'burst' | 'summon' | 'charge';
+
+/** One step of a boss fight, entered once hp falls to `hpRatio` of the maximum. */
+export interface BossStage {
+  hpRatio: number;
+  attackIntervalMs: number;
+  attacks: BossAttack[]; // used in turn, round and round
+}
+
+export interface BossDefinition {
+  name: string;
+  stages: BossStage[]; // ordered by falling `hpRatio`, the first one at 1
+  burst: {
+    bullets: number; // fired evenly around the boss
+    bulletSpeed: number;
+    bulletDamage: number;
+    bulletLifeTime: number;
+  };
+  summon: {
+    type: EnemyType;
+    count: number;
+  };
+  // Orbs scattered where the boss falls.
+  chest: {
+    orbs: number;
+    orbValue: number;
+    radius: number;
+  };
+}
+
+export const ENEMY_TYPES: Record<EnemyType, EnemyDefinition> = {
+  grunt: { hp: 30, size: 20, speed: [100, 150], damage: 10, armor: 0, expValue: 15, spawnWeight: 40 },
+  ranged: {
+    hp: 20, size: 18, speed: [90, 110], damage: 5, armor: 0, expValue: 25, spawnWeight: 20, firstWave: 2,
+    ranged: { range: 350, fireIntervalMs: 2000, bulletSpeed: 260, bulletDamage: 8, bulletLifeTime: 2500 }
+  },
+  charger: {
+    hp: 40, size: 22, speed: [80, 100], damage: 20, armor: 0, expValue: 30, spawnWeight: 15, firstWave: 3,
+    charge: { range: 300, windupMs: 700, dashMs: 500, dashSpeed: 650, cooldownMs: 2500 }
+  },
+  splitter: {
+    hp: 45, size: 26, speed: [70, 90], damage: 10, armor: 0, expValue: 25, spawnWeight: 15, firstWave: 3,
+    splitsInto: { type: 'splitling', count: 3 }
+  },
+  splitling: { hp: 10, size: 12, speed: [150, 180], damage: 5, armor: 0, expValue: 5, spawnWeight: 0 },
+  brute: { hp: 150, size: 32, speed: [55, 70], damage: 25, armor: 4, expValue: 60, spawnWeight: 10, firstWave: 5 },
+  // Never rolled by the spawner; the engine brings one in on its own timer.
+  boss: {
+    hp: 2500, size: 60, speed: [60, 60], damage: 30, armor: 2, expValue: 500, spawnWeight: 0,
+    charge: { range: 700, windupMs: 1000, dashMs: 800, dashSpeed: 550, cooldownMs: 0 },
+    boss: {
+      name: 'Siege Crawler',
+      stages: [
+        { hpRatio: 1, attackIntervalMs: 3000, attacks: ['burst', 'charge'] },
+        { hpRatio: 0.66, attackIntervalMs: 2500, attacks: ['burst', 'summon', 'charge'] },
+        { hpRatio: 0.33, attackIntervalMs: 1800, attacks: ['burst', 'summon', 'burst', 'charge'] },
+      ],
+      burst: { bullets: 16, bulletSpeed: 220, bulletDamage: 12, bulletLifeTime: 3000 },
+      summon: { type: 'grunt', count: 4 },
+      chest: { orbs: 12, orbValue: 25, radius: 120 },
+    },
+  },
+};
+
+export const ENEMY_TYPE_IDS = Object.keys(ENEMY_TYPES) as EnemyType[];
+
+/** Index into `boss.stages` for a boss at `hp`. */
+export function bossStage(boss: BossDefinition, hp: number, maxHp: number): number {
+  const ratio = hp / maxHp;
+  let stage = 0;
+  boss.stages.forEach((s, i) => {
+    if (ratio <= s.hpRatio) stage = i;
+  });
+  return stage;
+}
+
+/** Picks a type spawnable by `wave` in proportion to the spawn weights. */
+export function rollEnemyType(random: () => number, wave = Infinity): EnemyType {
+  const spawnable = ENEMY_TYPE_IDS.filter(type => ENEMY_TYPES[type].spawnWeight > 0 && (ENEMY_TYPES[type].firstWave ?? 1) <= wave);
+  const total = spawnable.reduce((sum, type) => sum + ENEMY_TYPES[type].spawnWeight, 0);
+  let roll = random() * total;
+  for (const type of spawnable) {
+    roll -= ENEMY_TYPES[type].spawnWeight;
+    if (roll < 0) return type;
+  }
+  return spawnable[spawnable.length - 1];
+}
@@ -0,0 +1,1273 @@
+import { ChassisKind, Enemy, EnemyType, GameMap, Player, StatusEffectKind, WeaponKind, effectMask } from '@tiny-tanks-time/protocol';
+import { seededRandom } from '../maps/map.generator';
+import { GameEngine, GameEngineOptions, OPEN_MAP } from './game.engine';
+import { GameEvent } from './game.events';
+import { BOT_TIERS } from './bots';
+import { ALL_UPGRADES, generateUpgrades } from './upgrades';
+
+const TICK_MS = 50;
+// Where shots leave the tank, ahead of its centre.
+const MUZZLE = 40;
+
+// A wall across the middle of a small field, open at the top and bottom.
+const WALLED_MAP: GameMap = {
+  ...OPEN_MAP,
+  id: 'walled',
+  width: 1000,
+  height: 1000,
+  obstacles: [{ x: 480, y: 120, width: 40, height: 760 }],
+};
+
+function createEngine(options: Partial<GameEngineOptions> = {}) {
+  return new GameEngine({
+    botCount: 0,
+    maxEnemies: 0,
+    initialOrbs: 0,
+    random: () => 0.5,
+    now: () => 1000,
+    ...options,
+  });
+}
+
+function addPlayerAt(engine: GameEngine, id: string, x: number, y: number): Player {
+  engine.addPlayer(id);
+  const player = engine.state.players.get(id) as Player;
+  player.x = x;
+  player.y = y;
+  return player;
+}
+
+function ofType<T extends GameEvent['type']>(events: GameEvent[], type: T) {
+  return events.filter((e): e is Extract<GameEvent, { type: T }> => e.type === type);
+}
+
+function addEnemyAt(engine: GameEngine, type: EnemyType, x: number, y: number): Enemy {
+  const enemy = engine.spawnEnemy(type);
+  if (!enemy) throw new Error(`${type} should spawn`);
+  enemy.x = x;
+  enemy.y = y;
+  return enemy;
+}
+
+function offerOf(events: GameEvent[]) {
+  return ofType(events, 'levelUpOptions')[0]?.payload;
+}
+
+function inputAck(events: GameEvent[], id: string) {
+  return ofType(events, 'worldSnapshot').find(e => e.to === id)?.payload.input;
+}
+
+describe('GameEngine', () => {
+  describe('players', () => {
+    it('should send the joining player the world and announce them to others', () => {
+      const engine = createEngine();
+      engine.addPlayer('p1');
+      const events = engine.addPlayer('p2');
+
+      expect(ofType(events, 'gameState')[0]).toMatchObject({ to: 'p2', payload: { players: [{ id: 'p1' }, { id: 'p2' }] } });
+      expect(ofType(events, 'playerJoined')).toEqual([expect.objectContaining({ to: 'p1' })]);
+    });
+
+    it('should apply queued move intents on the next step', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 100, 100);
+
+      engine.queueMove('p1', { seq: 0, dx: 1, dy: 0, angle: 1, dt: 50 });
+      expect(player.x).toBe(100);
+
+      const events = engine.step(TICK_MS);
+      expect(player).toMatchObject({ x: 112, y: 100, angle: 1 });
+      expect(inputAck(events, 'p1')).toEqual({ seq: 0, x: 112, y: 100 });
+    });
+
+    it('should never move a player faster than moveSpeed allows', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 100, 100);
+
+      for (let seq = 0; seq < 20; seq++) {
+        engine.queueMove('p1', { seq, dx: 1, dy: 0, angle: 0, dt: 50 });
+      }
+      const events = engine.step(TICK_MS);
+
+      expect(player.x).toBe(112);
+      expect(inputAck(events, 'p1')).toEqual({ seq: 19, x: 112, y: 100 });
+    });
+
+    it('should let players spend movement time banked while idle', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 100, 100);
+      engine.queueMove('p1', { seq: 0, dx: 0, dy: 0, angle: 0, dt: 0 });
+      engine.step(TICK_MS);
+      engine.step(TICK_MS);
+
+      engine.queueMove('p1', { seq: 1, dx: 0, dy: 1, angle: 0, dt: 50 });
+      engine.queueMove('p1', { seq: 2, dx: 0, dy: 1, angle: 0, dt: 50 });
+      const events = engine.step(TICK_MS);
+
+      expect(player.y).toBe(124);
+      expect(inputAck(events, 'p1')).toEqual({ seq: 2, x: 100, y: 124 });
+    });
+
+    it('should refuse moves into obstacles or with invalid values', () => {
+      const engine = createEngine({ map: { ...OPEN_MAP, obstacles: [{ x: 130, y: 0, width: 50, height: 500 }] } });
+      const player = addPlayerAt(engine, 'p1', 100, 100);
+
+      engine.queueMove('p1', { seq: 0, dx: 1, dy: 0, angle: 0, dt: 50 });
+      let events = engine.step(TICK_MS);
+      expect(player.x).toBe(100);
+      expect(inputAck(events, 'p1')).toEqual({ seq: 0, x: 100, y: 100 });
+
+      engine.queueMove('p1', { seq: 1, dx: NaN, dy: 0, angle: 0, dt: 50 });
+      events = engine.step(TICK_MS);
+      expect(player.x).toBe(100);
+      expect(inputAck(events, 'p1')?.seq).toBe(1);
+    });
+
+    it('should drop stale, duplicate and unsequenced inputs', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 100, 100);
+      engine.queueMove('p1', { seq: 5, dx: 1, dy: 0, angle: 0, dt: 50 });
+      engine.step(TICK_MS);
+
+      engine.queueMove('p1', { seq: 5, dx: 1, dy: 0, angle: 0, dt: 50 });
+      engine.queueMove('p1', { seq: 3, dx: 1, dy: 0, angle: 0, dt: 50 });
+      engine.queueMove('p1', { seq: 6.5, dx: 1, dy: 0, angle: 0, dt: 50 });
+      const events = engine.step(TICK_MS);
+
+      expect(player.x).toBe(112);
+      expect(inputAck(events, 'p1')).toBeUndefined();
+    });
+  });
+
+  describe('snapshots', () => {
+    function snapshotFor(events: GameEvent[], id: string) {
+      return ofType(events, 'worldSnapshot').find(e => e.to === id)?.payload;
+    }
+
+    it('should send full snapshots until one is acknowledged', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'p1', 100.04, 100);
+      addPlayerAt(engine, 'p2', 500, 500);
+
+      const first = snapshotFor(engine.step(TICK_MS), 'p1');
+      expect(first).toMatchObject({ baseTick: -1, removedPlayers: [] });
+      expect(first?.players.map(p => p.id)).toEqual(['p1', 'p2']);
+      expect(first?.players[0].x).toBe(100);
+
+      engine.ackSnapshot('p1', first?.tick as number);
+      engine.queueMove('p1', { seq: 0, dx: 1, dy: 0, angle: 0, dt: 50 });
+      const events = engine.step(TICK_MS);
+
+      expect(snapshotFor(events, 'p1')).toMatchObject({ baseTick: first?.tick, players: [{ id: 'p1' }] });
+      expect(snapshotFor(events, 'p2')?.baseTick).toBe(-1);
+    });
+
+    it('should list entities removed since the acknowledged snapshot', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'p1', 100, 100);
+      addPlayerAt(engine, 'p2', 500, 500);
+      const enemy = engine.spawnEnemy('grunt');
+      if (!enemy) throw new Error('enemy should spawn');
+      enemy.x = 200;
+      enemy.y = 200;
+      enemy.speed = 0;
+      engine.ackSnapshot('p1', snapshotFor(engine.step(TICK_MS), 'p1')?.tick as number);
+
+      engine.removePlayer('p2');
+      engine.state.enemies = [];
+      const snapshot = snapshotFor(engine.step(TICK_MS), 'p1');
+
+      expect(snapshot).toMatchObject({ players: [], enemies: [], removedPlayers: ['p2'], removedEnemies: [enemy.id] });
+    });
+
+    it('should not send snapshots to bots', () => {
+      const engine = createEngine({ botCount: 1, botSpawnDelayMs: 0 });
+
+      expect(ofType(engine.step(TICK_MS), 'worldSnapshot')).toHaveLength(0);
+    });
+  });
+
+  describe('maps', () => {
+    const map = {
+      ...OPEN_MAP,
+      id: 'test',
+      width: 2000,
+      height: 1000,
+      spawnPoints: [{ x: 100, y: 900 }],
+      orbZones: [{ x: 1500, y: 100, width: 10, height: 10 }],
+      enemyZones: [{ x: 0, y: 0, width: 10, height: 10 }, { x: 1000, y: 500, width: 90, height: 10 }],
+    };
+
+    it('should send the map in the join handshake', () => {
+      const engine = createEngine({ map });
+
+      expect(ofType(engine.addPlayer('p1'), 'gameState')[0].payload.map).toBe(map);
+    });
+
+    it('should spawn players, orbs and enemies where the map says', () => {
+      const engine = createEngine({ map });
+      addPlayerAt(engine, 'p1', 1000, 500);
+      const player = engine.state.players.get('p1') as Player;
+      player.hp = 0;
+      engine.respawn('p1');
+
+      expect(player).toMatchObject({ x: 100, y: 900 });
+      expect(engine.spawnOrb()).toMatchObject({ x: 1505, y: 105 });
+      // The roll lands in the larger zone: 0.5 of the 1000 total area.
+      expect(engine.spawnEnemy()).toMatchObject({ x: 1045, y: 505 });
+    });
+
+    it('should give up on an orb when its zone has no free spot', () => {
+      const engine = createEngine({ map: { ...map, obstacles: [{ x: 1450, y: 50, width: 100, height: 100 }] } });
+
+      expect(engine.spawnOrb()).toBeNull();
+      expect(engine.state.orbs).toHaveLength(0);
+    });
+
+    it('should keep tanks inside the map bounds', () => {
+      const engine = createEngine({ map });
+
+      expect(engine.checkCollision(1990, 500, 20)).toBe(true);
+      expect(engine.checkCollision(1900, 500, 20)).toBe(false);
+    });
+  });
+
+  describe('area of interest', () => {
+    it('should only send spawns and removals to players in range', () => {
+      const engine = createEngine({ interestRadius: 500 });
+      addPlayerAt(engine, 'near', 1000, 1000);
+      addPlayerAt(engine, 'far', 3000, 3000);
+      engine.step(TICK_MS);
+
+      const shot = engine.shoot('near', 0);
+      expect(ofType(shot, 'bulletShot').map(e => e.to)).toEqual(['near']);
+
+      const left = engine.removePlayer('near');
+      expect(ofType(left, 'playerLeft')).toHaveLength(0);
+    });
+
+    it('should notify players as entities enter and leave their range', () => {
+      const engine = createEngine({ interestRadius: 500 });
+      const player = addPlayerAt(engine, 'p1', 1000, 1000);
+      engine.state.orbs.push({ id: 'orb', x: 1400, y: 1000, value: 20 });
+      const enemy = engine.spawnEnemy('grunt');
+      if (!enemy) throw new Error('enemy should spawn');
+      enemy.speed = 0;
+
+      let events = engine.step(TICK_MS);
+      expect(ofType(events, 'entitiesEntered')[0]).toMatchObject({ to: 'p1', payload: { orbs: [{ id: 'orb' }], enemies: [] } });
+      expect(ofType(events, 'worldSnapshot')[0].payload.enemies).toEqual([]);
+
+      player.x = 1800;
+      player.y = 1800;
+      events = engine.step(TICK_MS);
+      expect(ofType(events, 'entitiesEntered')[0].payload.enemies.map(e => e.id)).toEqual([enemy.id]);
+      expect(ofType(events, 'entitiesLeft')[0].payload).toMatchObject({ orbs: ['orb'], enemies: [] });
+
+      player.x = 3000;
+      player.y = 3000;
+      events = engine.step(TICK_MS);
+      expect(ofType(events, 'entitiesLeft')[0].payload).toMatchObject({ orbs: [], enemies: [enemy.id] });
+    });
+
+    it('should keep entities on the boundary until they are clearly out of range', () => {
+      const engine = createEngine({ interestRadius: 500 });
+      const player = addPlayerAt(engine, 'p1', 1000, 1000);
+      engine.state.orbs.push({ id: 'orb', x: 1450, y: 1000, value: 20 });
+      engine.step(TICK_MS);
+
+      player.x = 900;
+      expect(ofType(engine.step(TICK_MS), 'entitiesLeft')).toHaveLength(0);
+      player.x = 700;
+      expect(ofType(engine.step(TICK_MS), 'entitiesLeft')).toHaveLength(1);
+    });
+  });
+
+  describe('combat', () => {
+    it('should damage a player hit by a bullet', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'shooter', 100, 500);
+      const target = addPlayerAt(engine, 'target', 160, 500);
+
+      engine.shoot('shooter', 0);
+      const events = engine.step(TICK_MS);
+
+      expect(target.hp).toBe(90);
+      expect(ofType(events, 'playerHit')[0].payload).toMatchObject({ id: 'target', hp: 90 });
+      expect(engine.state.bullets).toHaveLength(0);
+    });
+
+    it('should not damage immune players', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'shooter', 100, 500);
+      const target = addPlayerAt(engine, 'target', 160, 500);
+      target.immuneUntil = 5000;
+
+      engine.shoot('shooter', 0);
+      engine.step(TICK_MS);
+
+      expect(target.hp).toBe(100);
+      expect(engine.state.bullets).toHaveLength(0);
+    });
+
+    it('should notify the victim on death and reward the shooter', () => {
+      const engine = createEngine();
+      const shooter = addPlayerAt(engine, 'shooter', 100, 500);
+      const target = addPlayerAt(engine, 'target', 160, 500);
+      target.hp = 5;
+
+      const events = [...engine.shoot('shooter', 0), ...engine.step(TICK_MS)];
+
+      expect(target.hp).toBe(0);
+      expect(ofType(events, 'playerDied')[0]).toMatchObject({ to: 'target' });
+      expect(shooter.exp).toBe(50);
+    });
+
+    it('should drop an orb and grant exp when an enemy dies', () => {
+      const engine = createEngine();
+      const shooter = addPlayerAt(engine, 'shooter', 100, 500);
+      const enemy = engine.spawnEnemy('grunt');
+      if (!enemy) throw new Error('enemy should spawn');
+      enemy.x = 160;
+      enemy.y = 500;
+      enemy.hp = 10;
+      enemy.speed = 0;
+      engine.step(TICK_MS);
+
+      engine.shoot('shooter', 0);
+      const events = engine.step(TICK_MS);
+
+      expect(engine.state.enemies).toHaveLength(0);
+      expect(ofType(events, 'enemyDied')[0].payload).toBe(enemy.id);
+      expect(engine.state.orbs).toEqual([expect.objectContaining({ x: 160, y: 500, value: 10 })]);
+      expect(shooter.exp).toBe(enemy.expValue);
+    });
+
+    it('should fire from the server-side muzzle position', () => {
+      const engine = createEngine();
+      const shooter = addPlayerAt(engine, 'shooter', 1000, 1000);
+
+      const events = engine.shoot('shooter', Math.PI / 2);
+
+      expect(ofType(events, 'bulletShot')[0].payload).toMatchObject({ x: 1000, y: 1040, angle: Math.PI / 2 });
+      expect(shooter.angle).toBe(Math.PI / 2);
+    });
+
+    it('should reject shots faster than the fire rate', () => {
+      let now = 1000;
+      const engine = createEngine({ now: () => now });
+      addPlayerAt(engine, 'shooter', 1000, 1000);
+
+      expect(ofType(engine.shoot('shooter', 0), 'bulletShot')).toHaveLength(1);
+      now += 100;
+      expect(engine.shoot('shooter', 0)).toEqual([]);
+      now += 190;
+      expect(ofType(engine.shoot('shooter', 0), 'bulletShot')).toHaveLength(1);
+      expect(engine.shoot('shooter', NaN)).toEqual([]);
+    });
+
+    it('should expire bullets after their lifetime', () => {
+      const engine = createEngine();
+      const shooter = addPlayerAt(engine, 'shooter', 2000, 2000);
+      shooter.stats.bulletLifeTime = 100;
+
+      engine.shoot('shooter', 0);
+      engine.step(TICK_MS);
+      expect(engine.state.bullets).toHaveLength(1);
+
+      const events = engine.step(TICK_MS);
+      expect(engine.state.bullets).toHaveLength(0);
+      expect(ofType(events, 'bulletRemoved')).toHaveLength(1);
+    });
+
+    it('should fan out multiple bullets and a rear shot', () => {
+      const engine = createEngine();
+      const shooter = addPlayerAt(engine, 'shooter', 2000, 2000);
+      shooter.stats.bulletCount = 3;
+      shooter.stats.spreadAngle = 30;
+      shooter.stats.rearGuard = true;
+
+      const events = engine.shoot('shooter', 0);
+
+      expect(ofType(events, 'bulletShot')).toHaveLength(4);
+      expect(engine.state.bullets.map(b => b.angle)).toEqual([
+        -Math.PI / 12,
+        0,
+        Math.PI / 12,
+        Math.PI,
+      ]);
+    });
+  });
+
+  describe('weapons', () => {
+    function armed(engine: GameEngine, weapon: WeaponKind, x = 1000, y = 1000): Player {
+      const player = addPlayerAt(engine, 'shooter', x, y);
+      player.stats.weapon = weapon;
+      return player;
+    }
+
+    function sittingEnemy(engine: GameEngine, x: number, y: number): Enemy {
+      const enemy = addEnemyAt(engine, 'grunt', x, y);
+      enemy.speed = 0;
+      return enemy;
+    }
+
+    it('should steer missiles onto the nearest target', () => {
+      const engine = createEngine();
+      armed(engine, 'missile');
+      const grunt = sittingEnemy(engine, 1300, 1200);
+      engine.step(TICK_MS);
+
+      const [shot] = ofType(engine.shoot('shooter', 0), 'bulletShot');
+      for (let i = 0; i < 40 && grunt.hp === grunt.maxHp; i++) engine.step(TICK_MS);
+
+      expect(shot.payload).toMatchObject({ kind: 'missile', targetId: grunt.id });
+      expect(grunt.hp).toBeLessThan(grunt.maxHp);
+    });
+
+    it('should land mines and set them off when something comes close', () => {
+      const engine = createEngine();
+      armed(engine, 'mine');
+      const near = sittingEnemy(engine, 1600, 1000);
+      const alongside = sittingEnemy(engine, 1600, 1080);
+      engine.step(TICK_MS);
+      engine.shoot('shooter', 0);
+
+      for (let i = 0; i < 20; i++) engine.step(TICK_MS);
+      const [mine] = engine.state.bullets;
+      expect(mine).toMatchObject({ kind: 'mine', flightMs: 0 });
+      expect(near.hp).toBe(near.maxHp);
+
+      near.x = mine.x + 40;
+      near.y = mine.y;
+      const events = engine.step(TICK_MS);
+
+      expect(ofType(events, 'bulletExploded')).toHaveLength(1);
+      expect(engine.state.bullets).toHaveLength(0);
+      expect(near.hp).toBeLessThan(near.maxHp);
+      expect(alongside.hp).toBe(alongside.maxHp);
+    });
+
+    it('should burn everything inside the flame cone at once', () => {
+      const engine = createEngine();
+      armed(engine, 'flamethrower');
+      const ahead = sittingEnemy(engine, 1120, 1000);
+      const aside = sittingEnemy(engine, 1120, 1040);
+      const behind = sittingEnemy(engine, 880, 1000);
+      const far = sittingEnemy(engine, 1400, 1000);
+      engine.step(TICK_MS);
+
+      const [shot] = ofType(engine.shoot('shooter', 0), 'bulletShot');
+
+      expect(shot.payload).toMatchObject({ kind: 'flame', speed: 0 });
+      expect(ahead.hp).toBeLessThan(ahead.maxHp);
+      expect(aside.hp).toBeLessThan(aside.maxHp);
+      expect(behind.hp).toBe(behind.maxHp);
+      expect(far.hp).toBe(far.maxHp);
+    });
+
+    it('should hit only the first thing along a laser beam', () => {
+      const engine = createEngine();
+      armed(engine, 'laser');
+      const first = sittingEnemy(engine, 1300, 1000);
+      const second = sittingEnemy(engine, 1500, 1000);
+      engine.step(TICK_MS);
+
+      const [shot] = ofType(engine.shoot('shooter', 0), 'bulletShot');
+
+      expect(first.hp).toBeLessThan(first.maxHp);
+      expect(second.hp).toBe(second.maxHp);
+      expect(shot.payload.kind).toBe('laser');
+      expect(shot.payload.length).toBeCloseTo(300 - MUZZLE, 0);
+    });
+
+    it('should stop a laser at the first wall', () => {
+      const engine = createEngine({ map: WALLED_MAP, random: seededRandom(1) });
+      armed(engine, 'laser', 300, 500);
+      const grunt = sittingEnemy(engine, 700, 500);
+      engine.step(TICK_MS);
+
+      const [shot] = ofType(engine.shoot('shooter', 0), 'bulletShot');
+
+      expect(grunt.hp).toBe(grunt.maxHp);
+      expect(shot.payload.length).toBeLessThan(480 - 300);
+    });
+  });
+
+  describe('piercing and ricochets', () => {
+    function sittingEnemy(engine: GameEngine, x: number, y: number): Enemy {
+      const enemy = addEnemyAt(engine, 'grunt', x, y);
+      enemy.speed = 0;
+      return enemy;
+    }
+
+    function fire(engine: GameEngine, angle: number) {
+      engine.step(TICK_MS);
+      engine.shoot('shooter', angle);
+      return engine.state.bullets[0];
+    }
+
+    it('should pass through as many targets as it pierces, hitting each once', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'shooter', 1000, 1000).stats.pierce = 1;
+      const enemies = [1150, 1300, 1450].map(x => sittingEnemy(engine, x, 1000));
+
+      fire(engine, 0);
+      for (let i = 0; i < 30; i++) engine.step(TICK_MS);
+
+      expect(enemies.map(e => e.maxHp - e.hp)).toEqual([10, 10, 0]);
+      expect(engine.state.bullets).toHaveLength(0);
+    });
+
+    it('should ricochet off an obstacle face at the mirrored angle', () => {
+      const engine = createEngine({ map: WALLED_MAP, random: seededRandom(1) });
+      addPlayerAt(engine, 'shooter', 300, 400).stats.bounces = 1;
+
+      const bullet = fire(engine, 0.3);
+      for (let i = 0; i < 12; i++) engine.step(TICK_MS);
+
+      expect(bullet.angle).toBeCloseTo(Math.PI - 0.3);
+      expect(bullet.x).toBeLessThan(480);
+      expect(engine.state.bullets).toContain(bullet);
+    });
+
+    it('should ricochet off the arena edge and stop once out of bounces', () => {
+      const engine = createEngine({ map: WALLED_MAP, random: seededRandom(1) });
+      addPlayerAt(engine, 'shooter', 200, 500).stats.bounces = 1;
+
+      const bullet = fire(engine, Math.PI);
+      for (let i = 0; i < 10; i++) engine.step(TICK_MS);
+
+      expect(bullet.angle).toBeCloseTo(0);
+      expect(bullet.bounces).toBe(0);
+      expect(engine.state.bullets).toContain(bullet);
+
+      // Back across the field into the wall.
+      for (let i = 0; i < 30; i++) engine.step(TICK_MS);
+      expect(engine.state.bullets).toHaveLength(0);
+    });
+
+    it('should stop a bullet without bounces at the first wall', () => {
+      const engine = createEngine({ map: WALLED_MAP, random: seededRandom(1) });
+      addPlayerAt(engine, 'shooter', 300, 500);
+
+      fire(engine, 0);
+      for (let i = 0; i < 10; i++) engine.step(TICK_MS);
+
+      expect(engine.state.bullets).toHaveLength(0);
+    });
+  });
+
+  describe('status effects', () => {
+    function hitWith(engine: GameEngine, effect: StatusEffectKind, target: Player | Enemy) {
+      addPlayerAt(engine, 'shooter', target.x - 100, target.y).stats.hitEffects = [effect];
+      engine.step(TICK_MS);
+      engine.shoot('shooter', 0);
+      for (let i = 0; i < 10 && target.hp === target.maxHp; i++) engine.step(TICK_MS);
+      expect(target.hp).toBeLessThan(target.maxHp);
+    }
+
+    it('should burn an enemy for the length of the effect', () => {
+      const engine = createEngine();
+      const grunt = addEnemyAt(engine, 'grunt', 1100, 1000);
+      grunt.speed = 0;
+      hitWith(engine, 'burn', grunt);
+      const afterHit = grunt.hp;
+
+      for (let i = 0; i < 80; i++) engine.step(TICK_MS);
+
+      expect(afterHit - grunt.hp).toBe(6 * 3);
+    });
+
+    it('should slow a tank down and tell its client about it', () => {
+      const engine = createEngine();
+      const target = addPlayerAt(engine, 'target', 1100, 1000);
+      hitWith(engine, 'slow', target);
+
+      engine.queueMove('target', { seq: 0, dx: 0, dy: 1, angle: 0, dt: 50 });
+      const events = engine.step(TICK_MS);
+      const snapshot = ofType(events, 'worldSnapshot').find(e => e.to === 'target')?.payload;
+
+      expect(target.y).toBeCloseTo(1000 + 240 * 0.05 * 0.6);
+      expect(snapshot?.players.find(p => p.id === 'target')?.effects).toBe(effectMask(['slow']));
+    });
+
+    it('should keep a stunned tank from moving and shooting until it wears off', () => {
+      const engine = createEngine({ random: () => 0 });
+      const target = addPlayerAt(engine, 'target', 1100, 1000);
+      hitWith(engine, 'stun', target);
+
+      engine.queueMove('target', { seq: 0, dx: 0, dy: 1, angle: 0, dt: 50 });
+      const stunned = engine.step(TICK_MS);
+      expect(target.y).toBe(1000);
+      expect(ofType(engine.shoot('target', Math.PI), 'bulletShot')).toHaveLength(0);
+      expect(ofType(stunned, 'worldSnapshot').find(e => e.to === 'target')?.payload.players
+        .find(p => p.id === 'target')?.effects).toBe(effectMask(['stun']));
+
+      for (let i = 0; i < 20; i++) engine.step(TICK_MS);
+      expect(ofType(engine.shoot('target', Math.PI), 'bulletShot')).not.toHaveLength(0);
+    });
+  });
+
+  describe('abilities', () => {
+    it('should dash up to the first wall and report where the dash ended', () => {
+      const engine = createEngine({ map: WALLED_MAP, random: seededRandom(1) });
+      const player = addPlayerAt(engine, 'p1', 350, 500);
+
+      const [used] = ofType(engine.useAbility('p1', 0), 'abilityUsed');
+      const events = engine.step(TICK_MS);
+
+      expect(used.payload).toMatchObject({ ability: 'dash', readyAt: 1000 + 4000 });
+      expect(player.x).toBeGreaterThan(400);
+      expect(engine.checkCollision(player.x, player.y, 20)).toBe(false);
+      expect(inputAck(events, 'p1')).toMatchObject({ x: player.x, y: 500 });
+    });
+
+    it('should refuse an ability still on cooldown', () => {
+      let now = 1000;
+      const engine = createEngine({ now: () => now });
+      const player = addPlayerAt(engine, 'p1', 1000, 1000);
+      engine.useAbility('p1', 0);
+      const x = player.x;
+
+      now += 3000;
+      expect(ofType(engine.useAbility('p1', 0), 'abilityUsed')).toHaveLength(0);
+      expect(player.x).toBe(x);
+
+      now += 1000;
+      expect(ofType(engine.useAbility('p1', 0), 'abilityUsed')).toHaveLength(1);
+    });
+
+    it('should shield a player from damage until the bubble runs out', () => {
+      let now = 1000;
+      const engine = createEngine({ now: () => now });
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      player.stats.ability = 'shield';
+      const grunt = addEnemyAt(engine, 'grunt', 520, 500);
+      grunt.speed = 0;
+
+      const events = engine.useAbility('p1', 0);
+      engine.step(TICK_MS);
+      expect(ofType(events, 'playerImmunity')[0].payload.immuneUntil).toBe(now + 2500);
+      expect(player.hp).toBe(100);
+
+      now += 2500;
+      for (let i = 0; i < 10; i++) engine.step(TICK_MS);
+      expect(player.hp).toBe(100 - grunt.damage);
+    });
+
+    it('should halve the fire rate cooldown while overcharged', () => {
+      let now = 1000;
+      const engine = createEngine({ now: () => now });
+      addPlayerAt(engine, 'p1', 1000, 1000).stats.ability = 'overcharge';
+      engine.useAbility('p1', 0);
+
+      expect(ofType(engine.shoot('p1', 0), 'bulletShot')).not.toHaveLength(0);
+      now += 160;
+      expect(ofType(engine.shoot('p1', 0), 'bulletShot')).not.toHaveLength(0);
+
+      now += 4000;
+      engine.shoot('p1', 0);
+      now += 160;
+      expect(ofType(engine.shoot('p1', 0), 'bulletShot')).toHaveLength(0);
+    });
+  });
+
+  describe('chassis', () => {
+    function addTank(engine: GameEngine, id: string, chassis: ChassisKind, x: number, y: number): Player {
+      engine.addPlayer(id, chassis);
+      const player = engine.state.players.get(id) as Player;
+      player.x = x;
+      player.y = y;
+      return player;
+    }
+
+    it('should build a tank on its chassis and keep it through a respawn', () => {
+      const engine = createEngine();
+      const player = addTank(engine, 'p1', 'heavy', 1000, 1000);
+      expect(player).toMatchObject({ chassis: 'heavy', hp: 170, maxHp: 170 });
+      expect(player.stats).toMatchObject({ moveSpeed: 180, bulletRadius: 9 });
+
+      player.hp = 0;
+      engine.respawn('p1');
+
+      expect(player).toMatchObject({ chassis: 'heavy', hp: 170, maxHp: 170 });
+      expect(player.stats.moveSpeed).toBe(180);
+    });
+
+    it('should fire bigger shells from a heavy and shrug off stuns', () => {
+      const engine = createEngine({ random: () => 0 });
+      const heavy = addTank(engine, 'heavy', 'heavy', 1100, 1000);
+      addPlayerAt(engine, 'shooter', 1000, 1000).stats.hitEffects = ['stun'];
+
+      expect(ofType(engine.shoot('heavy', Math.PI), 'bulletShot')[0].payload.radius).toBe(9);
+      engine.shoot('shooter', 0);
+      for (let i = 0; i < 10 && heavy.hp === heavy.maxHp; i++) engine.step(TICK_MS);
+      expect(heavy.hp).toBeLessThan(heavy.maxHp);
+
+      engine.queueMove('heavy', { seq: 0, dx: 0, dy: 1, angle: 0, dt: 50 });
+      engine.step(TICK_MS);
+      expect(heavy.y).toBeGreaterThan(1000);
+    });
+
+    it('should let an artillery hit harder from far away', () => {
+      let now = 1000;
+      const engine = createEngine({ now: () => now });
+      addTank(engine, 'artillery', 'artillery', 1000, 1000);
+      const near = addPlayerAt(engine, 'near', 1000, 1200);
+      const far = addPlayerAt(engine, 'far', 1600, 1000);
+
+      engine.shoot('artillery', 0);
+      for (let i = 0; i < 30 && far.hp === far.maxHp; i++) engine.step(TICK_MS);
+      now += 1000;
+      engine.shoot('artillery', Math.PI / 2);
+      for (let i = 0; i < 30 && near.hp === near.maxHp; i++) engine.step(TICK_MS);
+
+      expect(near.hp).toBe(100 - 22);
+      expect(far.hp).toBe(100 - 22 * 1.5);
+    });
+
+    it('should recharge a scout\'s ability faster', () => {
+      const engine = createEngine();
+      addTank(engine, 'p1', 'scout', 1000, 1000);
+
+      const [used] = ofType(engine.useAbility('p1', 0), 'abilityUsed');
+
+      expect(used.payload).toMatchObject({ ability: 'dash', cooldownMs: 4000 * 0.6, readyAt: 1000 + 4000 * 0.6 });
+    });
+  });
+
+  describe('enemies', () => {
+    it('should deal its own damage on contact at a limited rate', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      const grunt = addEnemyAt(engine, 'grunt', 520, 500);
+      grunt.speed = 0;
+
+      engine.step(TICK_MS);
+      expect(player.hp).toBe(100 - grunt.damage);
+
+      engine.step(TICK_MS);
+      expect(player.hp).toBe(100 - grunt.damage);
+
+      for (let i = 0; i < 9; i++) engine.step(TICK_MS);
+      expect(player.hp).toBe(100 - grunt.damage * 2);
+    });
+
+    it('should not hurt an immune player', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      player.immuneUntil = 5000;
+      addEnemyAt(engine, 'grunt', 520, 500);
+
+      engine.step(TICK_MS);
+
+      expect(player.hp).toBe(100);
+    });
+
+    it('should shoot hostile bullets from range that hurt players but not enemies', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      const ranged = addEnemyAt(engine, 'ranged', 800, 500);
+      const bystander = addEnemyAt(engine, 'brute', 650, 500);
+      bystander.speed = 0;
+
+      let shot: Extract<GameEvent, { type: 'bulletShot' }> | undefined;
+      for (let i = 0; i < 40 && !shot; i++) {
+        shot = ofType(engine.step(TICK_MS), 'bulletShot')[0];
+      }
+
+      expect(ranged.x).toBe(800);
+      expect(shot?.payload).toMatchObject({ playerId: ranged.id, hostile: true, damage: 8 });
+
+      for (let i = 0; i < 30; i++) engine.step(TICK_MS);
+      expect(bystander.hp).toBe(bystander.maxHp);
+      expect(player.hp).toBeLessThan(100);
+    });
+
+    it('should telegraph a charge, then dash in a straight line', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'p1', 500, 500);
+      const charger = addEnemyAt(engine, 'charger', 800, 500);
+
+      engine.step(TICK_MS);
+      expect(charger.phase).toBe('windup');
+      expect(charger.x).toBe(800);
+      const windup = ofType(engine.step(TICK_MS), 'worldSnapshot')[0];
+      expect(windup.payload.enemies[0]).toMatchObject({ id: charger.id, phase: 'windup' });
+
+      for (let i = 0; i < 13; i++) engine.step(TICK_MS);
+      expect(charger.phase).toBe('dash');
+
+      engine.step(TICK_MS);
+      expect(charger.x).toBeCloseTo(800 - 650 * TICK_MS / 1000);
+    });
+
+    it('should split into smaller enemies when killed', () => {
+      const engine = createEngine();
+      const shooter = addPlayerAt(engine, 'shooter', 100, 500);
+      const splitter = addEnemyAt(engine, 'splitter', 170, 500);
+      splitter.hp = 1;
+      splitter.speed = 0;
+      engine.step(TICK_MS);
+
+      engine.shoot('shooter', 0);
+      const events = engine.step(TICK_MS);
+
+      expect(ofType(events, 'enemyDied')[0].payload).toBe(splitter.id);
+      expect(engine.state.enemies.map(e => e.type)).toEqual(['splitling', 'splitling', 'splitling']);
+      expect(shooter.exp).toBe(splitter.expValue);
+    });
+
+    it('should soak part of every hit with a brute\'s armor', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'shooter', 100, 500);
+      const brute = addEnemyAt(engine, 'brute', 180, 500);
+      brute.speed = 0;
+      engine.step(TICK_MS);
+
+      engine.shoot('shooter', 0);
+      engine.step(TICK_MS);
+
+      expect(brute.hp).toBe(brute.maxHp - (10 - 4));
+    });
+  });
+
+  describe('waves', () => {
+    it('should announce every wave to the room and the wave so far to joiners', () => {
+      const engine = createEngine({ waveDurationMs: 1000 });
+      addPlayerAt(engine, 'p1', 500, 500);
+
+      expect(ofType(engine.step(TICK_MS), 'waveStarted')).toEqual([
+        { type: 'waveStarted', payload: { wave: 1, newTypes: ['grunt'], hpMultiplier: 1, damageMultiplier: 1 } },
+      ]);
+
+      const events: GameEvent[] = [];
+      for (let i = 0; i < 20; i++) events.push(...engine.step(TICK_MS));
+      expect(ofType(events, 'waveStarted').map(e => e.payload)).toEqual([
+        expect.objectContaining({ wave: 2, newTypes: ['ranged'] }),
+      ]);
+      expect(ofType(engine.addPlayer('p2'), 'waveStarted')[0]).toMatchObject({ to: 'p2', payload: { wave: 2 } });
+    });
+
+    it('should spawn enemies out of every human\'s sight', () => {
+      const engine = createEngine({ random: seededRandom(7) });
+      const humans = [addPlayerAt(engine, 'p1', 2000, 2000), addPlayerAt(engine, 'p2', 1000, 1000)];
+
+      for (let i = 0; i < 20; i++) {
+        const enemy = engine.spawnEnemy('grunt') as Enemy;
+        for (const human of humans) {
+          expect(Math.hypot(enemy.x - human.x, enemy.y - human.y)).toBeGreaterThanOrEqual(1100);
+        }
+      }
+    });
+
+    it('should scale new enemies with the players\' level', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'p1', 500, 500).level = 11;
+      engine.step(TICK_MS);
+
+      const grunt = engine.spawnEnemy('grunt') as Enemy;
+
+      expect(grunt).toMatchObject({ hp: 54, maxHp: 54, damage: 14, expValue: 27 });
+    });
+
+    it('should keep to the cap', () => {
+      const engine = createEngine({ maxEnemies: 3, enemySpawnIntervalMs: 250 });
+      addPlayerAt(engine, 'p1', 500, 500);
+
+      for (let i = 0; i < 40; i++) engine.step(TICK_MS);
+
+      expect(engine.state.enemies).toHaveLength(3);
+    });
+  });
+
+  describe('bosses', () => {
+    it('should bring in one boss at a time and announce it to the whole room', () => {
+      const engine = createEngine({ bossIntervalMs: 100 });
+      addPlayerAt(engine, 'p1', 500, 500);
+
+      const events = [...engine.step(TICK_MS), ...engine.step(TICK_MS)];
+      for (let i = 0; i < 10; i++) engine.step(TICK_MS);
+
+      expect(engine.state.enemies.filter(e => e.type === 'boss')).toHaveLength(1);
+      const announced = ofType(events, 'bossStatus');
+      expect(announced).toHaveLength(1);
+      expect(announced[0].to).toBeUndefined();
+      expect(announced[0].payload).toMatchObject({ name: 'Siege Crawler', stage: 1, stages: 3 });
+      expect(ofType(engine.addPlayer('p2'), 'bossStatus')[0].to).toBe('p2');
+    });
+
+    it('should take the attacks of its stage in turn', () => {
+      const engine = createEngine();
+      addPlayerAt(engine, 'p1', 500, 500);
+      const boss = addEnemyAt(engine, 'boss', 1000, 500);
+      boss.speed = 0;
+
+      const shots: Extract<GameEvent, { type: 'bulletShot' }>[] = [];
+      for (let i = 0; i < 60; i++) shots.push(...ofType(engine.step(TICK_MS), 'bulletShot'));
+      expect(shots).toHaveLength(16);
+      expect(shots.every(s => s.payload.hostile && s.payload.playerId === boss.id)).toBe(true);
+
+      // Second stage: the next attack in its rotation is a summon.
+      boss.hp = boss.maxHp / 2;
+      for (let i = 0; i < 60; i++) engine.step(TICK_MS);
+      expect(engine.state.enemies.filter(e => e.type === 'grunt')).toHaveLength(4);
+    });
+
+    it('should drop a chest and offer the top damage dealer a high-rarity pick', () => {
+      const engine = createEngine();
+      const top = addPlayerAt(engine, 'top', 100, 500);
+      addPlayerAt(engine, 'other', 250, 750);
+      const boss = addEnemyAt(engine, 'boss', 250, 500);
+      boss.speed = 0;
+      boss.hp = 50;
+      top.stats.bulletDamage = 50;
+
+      engine.shoot('other', -Math.PI / 2);
+      const events: GameEvent[] = [];
+      for (let i = 0; i < 10; i++) events.push(...engine.step(TICK_MS));
+      expect(ofType(events, 'bossStatus').at(-1)?.payload.hp).toBe(50 - (10 - 2));
+
+      engine.shoot('top', 0);
+      for (let i = 0; i < 10; i++) events.push(...engine.step(TICK_MS));
+
+      expect(ofType(events, 'bossDefeated')).toEqual([{ type: 'bossDefeated', payload: { id: boss.id, topDamagerId: 'top' } }]);
+      expect(engine.state.orbs.filter(o => o.value === 25)).toHaveLength(12);
+
+      const offer = offerOf(events.filter(e => e.to === 'top'));
+      expect(offer?.reward).toBe(true);
+      expect(offer?.options.every(u => u.rarity === 'Epic' || u.rarity === 'Legendary')).toBe(true);
+
+      // The kill's exp earned a regular level up, offered once the reward is taken.
+      const picked = engine.selectUpgrade('top', offer?.options[0].id as string);
+      expect(top.level).toBe(1);
+      expect(top.upgrades).toHaveLength(1);
+      expect(offerOf(picked)?.reward).toBeUndefined();
+    });
+  });
+
+  describe('leveling', () => {
+    it('should offer upgrades once enough exp is collected', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      player.exp = 90;
+      engine.state.orbs.push({ id: 'orb', x: 510, y: 500, value: 20 });
+
+      const events = engine.step(TICK_MS);
+
+      expect(player.exp).toBe(110);
+      expect(player.pendingLevelUp).toBe(true);
+      expect(player.immuneUntil).toBe(11000);
+      const levelUp = ofType(events, 'levelUpOptions')[0];
+      expect(levelUp.to).toBe('p1');
+      expect(levelUp.payload).toMatchObject({ rerolls: 2, banishes: 2, skipExp: 25, autoPickAt: 11000 });
+      expect(levelUp.payload.options).toHaveLength(3);
+    });
+
+    it('should apply the selected upgrade and advance the level', () => {
+      const engine = createEngine({ random: () => 0.1 });
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      engine.debugLevelUp('p1');
+
+      engine.selectUpgrade('p1', 'titan_hull_1');
+
+      expect(player.level).toBe(2);
+      expect(player.exp).toBe(0);
+      expect(player.maxExp).toBe(120);
+      expect(player.maxHp).toBeCloseTo(120);
+      expect(player.upgrades.map(u => u.id)).toEqual(['titan_hull_1']);
+      expect(player.pendingLevelUp).toBe(false);
+    });
+
+    it('should hand back the immunity a level up interrupted once it is picked', () => {
+      const engine = createEngine({ random: () => 0.1 });
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      player.immuneUntil = 4000;
+      engine.debugLevelUp('p1');
+
+      const events = engine.selectUpgrade('p1', 'titan_hull_1');
+
+      expect(player.immuneUntil).toBe(4000);
+      expect(ofType(events, 'playerImmunity')[0].payload.immuneUntil).toBe(4000);
+    });
+
+    it('should cap Double Barrel and Triple Shot together at three bullets', () => {
+      const engine = createEngine({ random: seededRandom(3) });
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      const take = (upgradeId: string) => {
+        for (let i = 0; i < 500; i++) {
+          engine.debugLevelUp('p1');
+          if (ofType(engine.selectUpgrade('p1', upgradeId), 'levelUpResolved').length > 0) return;
+          engine.skipUpgrade('p1');
+        }
+        throw new Error(`${upgradeId} was never offered`);
+      };
+
+      take('double_barrel_1');
+      expect(player.stats.bulletCount).toBe(2);
+      take('triple_shot');
+
+      expect(player.stats.bulletCount).toBe(3);
+    });
+
+    it('should ignore upgrade selections without a pending level up', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+
+      expect(engine.selectUpgrade('p1', 'titan_hull_1')).toEqual([]);
+      expect(player.level).toBe(1);
+    });
+
+    it('should ignore upgrades that were not offered', () => {
+      const engine = createEngine({ random: () => 0.1 });
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      engine.debugLevelUp('p1');
+
+      expect(engine.selectUpgrade('p1', 'triple_shot')).toEqual([]);
+      expect(player.pendingLevelUp).toBe(true);
+    });
+
+    it('should deal new cards on reroll until the rerolls run out', () => {
+      let roll = 0;
+      const engine = createEngine({ random: () => (roll++ % 10) / 10 });
+      addPlayerAt(engine, 'p1', 500, 500);
+      engine.debugLevelUp('p1');
+
+      const first = offerOf(engine.rerollUpgrades('p1'));
+      const second = offerOf(engine.rerollUpgrades('p1'));
+
+      expect(first?.rerolls).toBe(1);
+      expect(second?.rerolls).toBe(0);
+      expect(second?.options).toHaveLength(3);
+      expect(engine.rerollUpgrades('p1')).toEqual([]);
+    });
+
+    it('should never offer a banished upgrade again this life', () => {
+      const engine = createEngine({ random: () => 0.1 });
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      const [banished] = offerOf(engine.debugLevelUp('p1'))?.options ?? [];
+
+      const offer = offerOf(engine.banishUpgrade('p1', banished.id));
+
+      expect(offer?.banishes).toBe(1);
+      expect(offer?.options).toHaveLength(3);
+      expect(offer?.options.map(u => u.id)).not.toContain(banished.id);
+      expect(offerOf(engine.rerollUpgrades('p1'))?.options.map(u => u.id)).not.toContain(banished.id);
+
+      player.hp = 0;
+      engine.respawn('p1');
+      expect(offerOf(engine.debugLevelUp('p1'))?.options.map(u => u.id)).toContain(banished.id);
+    });
+
+    it('should turn a skipped upgrade into exp', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      engine.debugLevelUp('p1');
+
+      const events = engine.skipUpgrade('p1');
+
+      expect(player.level).toBe(2);
+      expect(player.exp).toBe(25);
+      expect(player.upgrades).toEqual([]);
+      expect(ofType(events, 'levelUpResolved')[0].payload).toEqual({ upgradeId: null });
+    });
+
+    it('should pick the first card once the immunity window ends', () => {
+      let now = 1000;
+      const engine = createEngine({ now: () => now });
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      const [first] = offerOf(engine.debugLevelUp('p1'))?.options ?? [];
+
+      now = 10999;
+      engine.step(TICK_MS);
+      expect(player.pendingLevelUp).toBe(true);
+
+      now = 11000;
+      const events = engine.step(TICK_MS);
+
+      expect(player.pendingLevelUp).toBe(false);
+      expect(player.upgrades.map(u => u.id)).toEqual([first.id]);
+      expect(ofType(events, 'levelUpResolved')[0]).toMatchObject({ to: 'p1', payload: { upgradeId: first.id } });
+    });
+
+    it('should only offer upgrades whose prerequisite is owned', () => {
+      const engine = createEngine();
+      const player = addPlayerAt(engine, 'p1', 500, 500);
+      let roll = 0;
+      const options = generateUpgrades(ALL_UPGRADES.length, player, () => (roll++ % 10) / 10);
+
+      expect(options.some(u => u.prerequisites)).toBe(false);
+      expect(new Set(options.map(u => u.id)).size).toBe(options.length);
+    });
+  });
+
+  describe('pathfinding', () => {
+    it('should lead enemies around a wall to their target', () => {
+      const engine = createEngine({ map: WALLED_MAP, random: seededRandom(1) });
+      const player = addPlayerAt(engine, 'p1', 200, 500);
+      player.immuneUntil = Infinity;
+      const grunt = addEnemyAt(engine, 'grunt', 800, 500);
+
+      for (let i = 0; i < 300; i++) engine.step(TICK_MS);
+
+      expect(Math.hypot(grunt.x - player.x, grunt.y - player.y)).toBeLessThan(grunt.size + 25);
+    });
+
+    it('should walk a bot around a wall to an orb', () => {
+      const engine = createEngine({ map: WALLED_MAP, random: seededRandom(3) });
+      const bot = engine.spawnBot();
+      bot.x = 700;
+      bot.y = 500;
+      engine.state.orbs.push({ id: 'orb', x: 300, y: 500, value: 20 });
+
+      for (let i = 0; i < 300 && engine.state.orbs.some(o => o.id === 'orb'); i++) engine.step(TICK_MS);
+
+      expect(engine.state.orbs.some(o => o.id === 'orb')).toBe(false);
+      expect(bot.exp).toBe(20);
+    });
+
+    it('should hold fire on a target behind a wall and chase it round', () => {
+      const engine = createEngine({ map: WALLED_MAP, random: seededRandom(5) });
+      const bot = engine.spawnBot();
+      bot.x = 700;
+      bot.y = 500;
+      bot.angle = Math.PI;
+      addPlayerAt(engine, 'human', 300, 500);
+
+      expect(ofType(engine.step(TICK_MS), 'bulletShot')).toHaveLength(0);
+      let fired = false;
+      for (let i = 0; i < 300 && !fired; i++) {
+        fired = ofType(engine.step(TICK_MS), 'bulletShot').some(e => e.payload.playerId === bot.id);
+      }
+
+      expect(fired).toBe(true);
+      expect(bot.x).toBeLessThan(480);
+    });
+  });
+
+  describe('bots', () => {
+    it('should spawn a bot somewhere free with the hp its stats give it, even when random spots keep missing', () => {
+      const engine = createEngine({
+        map: { ...OPEN_MAP, width: 1000, height: 1000, obstacles: [{ x: 0, y: 0, width: 1000, height: 800 }] },
+      });
+
+      const bot = engine.spawnBot('hard');
+
+      expect(engine.checkCollision(bot.x, bot.y, 20)).toBe(false);
+      expect(bot).toMatchObject({ hp: bot.stats.maxHp, maxHp: bot.stats.maxHp });
+    });
+
+    it('should spawn bots after the configured delay', () => {
+      const engine = createEngine({ botCount: 2, botSpawnDelayMs: 100 });
+      addPlayerAt(engine, 'human', 2000, 2000);
+
+      expect(engine.step(TICK_MS).filter(e => e.type === 'playerJoined')).toHaveLength(0);
+      const events = engine.step(TICK_MS);
+
+      expect(ofType(events, 'playerJoined')).toHaveLength(2);
+      expect(ofType(events, 'playerJoined').every(e => e.payload.isBot)).toBe(true);
+    });
+
+    it('should chase and shoot at a nearby human', () => {
+      const engine = createEngine();
+      const bot = engine.spawnBot();
+      bot.x = 1000;
+      bot.y = 1000;
+      bot.angle = 0;
+      addPlayerAt(engine, 'human', 1500, 1000);
+
+      const events = engine.step(TICK_MS);
+
+      expect(bot.x).toBeGreaterThan(1000);
+      expect(ofType(events, 'bulletShot')[0].payload.playerId).toBe(bot.id);
+    });
+
+    it('should upgrade itself on level up', () => {
+      const engine = createEngine({ botCount: 1, botSpawnDelayMs: 0 });
+      engine.step(TICK_MS);
+      const bot = Array.from(engine.state.players.values())[0];
+      bot.exp = bot.maxExp - 5;
+      engine.state.orbs.push({ id: 'orb', x: bot.x, y: bot.y, value: 20 });
+
+      engine.step(TICK_MS);
+
+      expect(bot.level).toBe(2);
+      expect(bot.upgrades).toHaveLength(1);
+      expect(bot.pendingLevelUp).toBe(false);
+    });
+
+    it('should split the bots between difficulties by the mix', () => {
+      const engine = createEngine({ botCount: 4, botMix: { easy: 1, normal: 0, hard: 1 }, botSpawnDelayMs: 0 });
+      engine.step(TICK_MS);
+
+      const fireRates = Array.from(engine.state.players.values()).map(bot => bot.stats.fireRate).sort((a, b) => a - b);
+      expect(fireRates).toEqual([
+        BOT_TIERS.hard.stats.fireRate, BOT_TIERS.hard.stats.fireRate,
+        BOT_TIERS.easy.stats.fireRate, BOT_TIERS.easy.stats.fireRate,
+      ]);
+    });
+
+    it('should keep the stats of its difficulty through upgrades and respawns', () => {
+      const engine = createEngine();
+      const bot = engine.spawnBot('hard');
+      addPlayerAt(engine, 'human', 2000, 2000);
+      bot.exp = bot.maxExp - 5;
+      engine.state.orbs.push({ id: 'orb', x: bot.x, y: bot.y, value: 20 });
+      engine.step(TICK_MS);
+
+      expect(bot.upgrades).toHaveLength(1);
+      engine.state.bullets.push({ id: 'b', kind: 'shell', playerId: 'human', x: bot.x, y: bot.y, angle: 0, speed: 0, damage: 1000, ttl: 1000 });
+      engine.step(TICK_MS);
+
+      expect(bot.upgrades).toHaveLength(0);
+      expect(bot.stats).toMatchObject(BOT_TIERS.hard.stats);
+    });
+
+    it('should take its reaction time to notice a new target', () => {
+      const engine = createEngine();
+      const bot = engine.spawnBot('easy');
+      bot.x = 1000;
+      bot.y = 1000;
+      bot.angle = 0;
+      engine.step(TICK_MS);
+      addPlayerAt(engine, 'human', 1400, 1000);
+
+      const noticedAfter = [];
+      for (let i = 1; i <= 20; i++) {
+        if (ofType(engine.step(TICK_MS), 'bulletShot').length > 0) noticedAfter.push(i * TICK_MS);
+      }
+
+      expect(noticedAfter[0]).toBeGreaterThanOrEqual(BOT_TIERS.easy.reactionMs - TICK_MS);
+    });
+
+    it('should back off from a fight when badly hurt', () => {
+      const engine = createEngine();
+      const bot = engine.spawnBot('normal');
+      bot.x = 1000;
+      bot.y = 1000;
+      bot.hp = 10;
+      addPlayerAt(engine, 'human', 1300, 1000);
+
+      let shots = 0;
+      for (let i = 0; i < 10; i++) shots += ofType(engine.step(TICK_MS), 'bulletShot').length;
+
+      expect(shots).toBe(0);
+      expect(bot.x).toBeLessThan(1000);
+    });
+
+    it('should run from enemies that come close', () => {
+      const engine = createEngine();
+      const bot = engine.spawnBot();
+      bot.x = 1000;
+      bot.y = 1000;
+      addPlayerAt(engine, 'human', 3500, 3500).immuneUntil = Infinity;
+      const grunt = addEnemyAt(engine, 'grunt', 1000, 1100);
+      grunt.speed = 0;
+
+      for (let i = 0; i < 10; i++) engine.step(TICK_MS);
+
+      expect(bot.y).toBeLessThan(1000);
+    });
+  });
+});
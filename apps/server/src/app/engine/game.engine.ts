@@ -0,0 +1,2020 @@
+import {
+  AbilityKind,
+  BULLET_RADIUS,
+  BossStatusPayload,
+  BotDifficulty,
+  ChassisKind,
+  Bullet,
+  Enemy,
+  EnemyType,
+  EntitiesPayload,
+  GameMap,
+  MAP_FORMAT_VERSION,
+  MapPoint,
+  MapZone,
+  Obstacle,
+  moveBullet,
+  Orb,
+  LevelUpOptionsPayload,
+  Player,
+  PlayerExpUpdatePayload,
+  PlayerHitPayload,
+  PlayerMoveInput,
+  PlayerStats,
+  ServerEventName,
+  effectMask,
+  effectSpeedMultiplier,
+  ServerEventPayload,
+  UpgradeRarity,
+  WaveStartedPayload,
+} from '@tiny-tanks-time/protocol';
+import { BOT_ARCHETYPES, BOT_TIERS, BotArchetype, BotState, botLineup, nextBotState, pickBotUpgrade } from './bots';
+import { BossDefinition, ENEMY_TYPES, EnemyDefinition, bossStage, rollEnemyType } from './enemies';
+import { GameEvent } from './game.events';
+import { GameState, UpgradeDefinition } from './game.types';
+import { InterestKind, InterestTracker } from './interest';
+import { FlowField, NavGrid } from './navigation';
+import { ABILITIES } from './abilities';
+import { CHASSIS } from './chassis';
+import { ActiveEffect, STATUS_EFFECTS, applyEffect, tickEffects } from './effects';
+import { SnapshotHistory, captureFrame } from './snapshots';
+import { SpatialHash } from './spatial-hash';
+import { computeStats, describeUpgrade, generateUpgrades } from './upgrades';
+import { Crowd, WaveDirector, WavePlan, newEnemyTypes } from './waves';
+import { WEAPONS } from './weapons';
+
+export interface GameEngineOptions {
+  map: GameMap;
+  botCount: number;
+  botMix: Record<BotDifficulty, number>; // relative shares of each difficulty among the bots
+  botSpawnDelayMs: number;
+  maxEnemies: number; // hard cap on top of the wave director's own
+  enemySpawnIntervalMs: number; // in the first wave with one player; the director speeds it up from there
+  waveDurationMs: number;
+  bossIntervalMs: number; // counted from the last boss's death
+  initialOrbs: number;
+  orbRespawnMs: number;
+  regenIntervalMs: number;
+  snapshotIntervalMs: number;
+  interestRadius: number;
+  random: () => number;
+  now: () => number;
+}
+
+/** Featureless arena used when no map file is given, e.g. in tests. */
+export const OPEN_MAP: GameMap = {
+  version: MAP_FORMAT_VERSION,
+  id: 'open',
+  name: 'Open Field',
+  width: 4000,
+  height: 4000,
+  obstacles: [],
+  spawnPoints: [],
+  orbZones: [],
+  enemyZones: [],
+};
+
+const DEFAULT_OPTIONS: GameEngineOptions = {
+  map: OPEN_MAP,
+  botCount: 8,
+  botMix: { easy: 1, normal: 2, hard: 1 },
+  botSpawnDelayMs: 2000,
+  maxEnemies: 50,
+  enemySpawnIntervalMs: 2000,
+  waveDurationMs: 60000,
+  bossIntervalMs: 180000,
+  initialOrbs: 50,
+  orbRespawnMs: 1000,
+  regenIntervalMs: 1000,
+  snapshotIntervalMs: 50,
+  interestRadius: 1200,
+  random: Math.random,
+  now: Date.now,
+};
+
+const TANK_RADIUS = 20;
+
+const BASE_STATS: PlayerStats = {
+  maxHp: 100,
+  fireRate: 300,
+  bulletCount: 1,
+  bulletDamage: 10,
+  bulletSpeed: 360,
+  bulletRadius: BULLET_RADIUS,
+  moveSpeed: 240,
+  pickupRange: 35,
+  rearGuard: false,
+  bulletLifeTime: 3000,
+  spreadAngle: 0,
+  regenRate: 0,
+  weapon: 'cannon',
+  pierce: 0,
+  bounces: 0,
+  hitEffects: [],
+  ability: 'dash'
+};
+// Lasers and flames are checked against walls at points this far apart.
+const BEAM_STEP = 10;
+// Dashes hop this far at a time so they stop at the first wall.
+const DASH_STEP = 10;
+const INDEX_CELL_SIZE = 200;
+
+// Movement time a client may spend: earned in real time, capped so a stalled
+// connection cannot bank seconds of movement and replay it as a teleport.
+const MAX_MOVE_BUDGET_MS = 250;
+const MAX_INPUT_DT_MS = 100;
+const MAX_QUEUED_INPUTS = 60;
+
+const MUZZLE_OFFSET = 40;
+// Shots from humans may arrive a little early when packets bunch up in transit.
+const FIRE_RATE_GRACE_MS = 25;
+
+// Bots run from enemies inside this range and go for orbs inside this one.
+const BOT_FLEE_RANGE = 200;
+const BOT_ORB_RANGE = 500;
+// How far either side of its preferred range a bot lets a fight drift before moving.
+const BOT_RANGE_SLACK = 25;
+const ROAM_SPEED_RATIO = 0.6;
+const ROAM_ARRIVAL_DISTANCE = 100;
+
+// Navigation grids come in a few clearances so every agent size shares one.
+const NAV_CELL_SIZE = 40;
+const NAV_CLEARANCE_STEP = 20;
+// Extra room kept around open cells so agents following them do not scrape along walls.
+const NAV_MARGIN = 10;
+// How long a bot's route and a flow field towards a player stay good for.
+const REPATH_MS = 500;
+
+// Enemies spawn at least this far from every human: half the diagonal of a 1920x1080 screen.
+const OFFSCREEN_DISTANCE = 1100;
+const SPAWN_ATTEMPTS = 10;
+// Enemies touching a tank hurt it at most this often.
+const CONTACT_INTERVAL_MS = 500;
+// Ranged enemies back off when a tank gets closer than this share of their range.
+const RANGED_RETREAT_RATIO = 0.6;
+
+const LEVEL_UP_WINDOW_MS = 10000;
+const LEVEL_UP_CARDS = 3;
+const REROLLS_PER_LIFE = 2;
+const BANISHES_PER_LIFE = 2;
+// Share of the level's exp requirement paid out for skipping the upgrade.
+const SKIP_EXP_RATIO = 0.25;
+// What the top damage dealer gets to pick from after a boss falls.
+const BOSS_REWARD_RARITIES: UpgradeRarity[] = ['Epic', 'Legendary'];
+
+interface MovementState {
+  inputs: PlayerMoveInput[];
+  budgetMs: number;
+  lastSeq: number;
+  ackPending: boolean;
+}
+
+/** The last time a player used their ability; times are epoch ms. */
+interface AbilityUse {
+  ability: AbilityKind;
+  readyAt: number;
+  activeUntil: number;
+}
+
+/** Server-only timers behind an enemy's behaviour. */
+interface EnemyBrain {
+  contactCooldownMs: number;
+  fireCooldownMs: number;
+  phaseMs: number; // time left in a windup or dash, or until a charger may charge again
+  dashAngle: number;
+  attackCooldownMs: number; // bosses only
+  attackIndex: number;
+  damageMultiplier: number; // the wave's, for hostile bullets
+}
+
+/** The boss currently in the arena and how much each player has hurt it. */
+interface BossFight {
+  enemy: Enemy;
+  damageBy: Map<string, number>;
+  statusDirty: boolean;
+}
+
+/** Server-only state behind a bot's decisions. */
+interface BotBrain {
+  difficulty: BotDifficulty;
+  archetype: BotArchetype;
+  state: BotState;
+  decideInMs: number; // until it next looks around
+  aimOffset: number; // rolled each time it looks around
+  roamGoal: MapPoint | null;
+}
+
+/** The A* route a bot is walking; `goal` is the cell it leads to. */
+interface BotRoute {
+  goal: number;
+  path: MapPoint[];
+  repathAt: number;
+}
+
+/** A flow field towards a player, shared by every enemy of one clearance chasing them. */
+interface CachedFlowField {
+  field: FlowField;
+  expiresAt: number;
+}
+
+/** A human's level-up choices; reset with every life. */
+interface LevelUpState {
+  offered: UpgradeDefinition[];
+  rerolls: number;
+  banishes: number;
+  banished: Set<string>;
+  rewardsOwed: number; // boss rewards still to be offered
+  reward: boolean; // the current offer is a boss reward
+  immuneBefore: number; // epoch ms; the immunity the pick window replaced, handed back once it closes
+}
+
+function isEnemy(target: Player | Enemy): target is Enemy {
+  return 'type' in target;
+}
+
+// How close a shot has to come to the centre of what it hits.
+function hitRadius(target: Player | Enemy): number {
+  return isEnemy(target) ? target.size : TANK_RADIUS;
+}
+
+/**
+ * Socket-free game simulation. Commands and `step` mutate the world and return
+ * the domain events they produced; delivering them is the caller's job.
+ */
+export class GameEngine {
+  readonly state: GameState = {
+    players: new Map(),
+    bullets: [],
+    orbs: [],
+    enemies: [],
+  };
+
+  private readonly options: GameEngineOptions;
+  private events: GameEvent[] = [];
+  private nextId = 0;
+  private elapsedMs = 0;
+  private tick = 0;
+
+  private director: WaveDirector;
+  private wave: WavePlan;
+  private bossTimer = 0;
+  private regenTimer = 0;
+  private snapshotTimer = 0;
+  private snapshots = new SnapshotHistory();
+  private interest: InterestTracker;
+
+  // Rebuilt from state before each phase that queries it; obstacles never move.
+  private index = {
+    players: new SpatialHash<Player>(INDEX_CELL_SIZE),
+    enemies: new SpatialHash<Enemy>(INDEX_CELL_SIZE),
+    orbs: new SpatialHash<Orb>(INDEX_CELL_SIZE),
+    obstacles: new SpatialHash<Obstacle>(INDEX_CELL_SIZE),
+  };
+  private orbRespawnTimers: number[] = [];
+  private movement = new Map<string, MovementState>();
+  private levelUps = new Map<string, LevelUpState>();
+  private brains = new Map<string, EnemyBrain>();
+  private botBrains = new Map<string, BotBrain>();
+  private bossFight: BossFight | null = null;
+  private navGrids = new Map<number, NavGrid>();
+  private routes = new Map<string, BotRoute>();
+  private flowFields = new Map<string, Map<number, CachedFlowField>>();
+  private botsSpawned = false;
+  private lastShotAt: Map<string, number> = new Map();
+  // Ids of everything a piercing bullet has already gone through.
+  private bulletHits = new Map<string, Set<string>>();
+  // Status effects on players and enemies, by id; nothing is stored for anything without one.
+  private effects = new Map<string, ActiveEffect[]>();
+  private abilityUses = new Map<string, AbilityUse>();
+
+  private colors = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4', '#feca57', '#ff9ff3'];
+
+  constructor(options: Partial<GameEngineOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.interest = new InterestTracker(this.options.interestRadius);
+    this.director = new WaveDirector({
+      waveDurationMs: this.options.waveDurationMs,
+      baseSpawnIntervalMs: this.options.enemySpawnIntervalMs,
+    });
+    this.wave = this.director.plan(this.crowd());
+    this.options.map.obstacles.forEach(obs => this.index.obstacles.insertRect(obs, obs.x, obs.y, obs.width, obs.height));
+
+    for (let i = 0; i < this.options.initialOrbs; i++) {
+      this.spawnOrb();
+    }
+    this.events = [];
+  }
+
+  get map(): GameMap {
+    return this.options.map;
+  }
+
+  /** Advances the world by one fixed step and returns everything that happened. */
+  step(dtMs: number): GameEvent[] {
+    const dt = dtMs / 1000;
+    this.elapsedMs += dtMs;
+    this.tick++;
+
+    this.updatePlayers(dtMs);
+    this.updateLevelUps();
+    this.updateBots(dt, dtMs);
+    this.updateEnemies(dt, dtMs);
+    this.updateBullets(dt, dtMs);
+    this.updateEffects(dtMs);
+    this.updateOrbs(dtMs);
+    this.updateRegen(dtMs);
+    this.updateSnapshots(dtMs);
+
+    return this.flush();
+  }
+
+  getEntities(): EntitiesPayload {
+    return {
+      players: Array.from(this.state.players.values()),
+      bullets: this.state.bullets,
+      orbs: this.state.orbs,
+      enemies: this.state.enemies,
+    };
+  }
+
+  addPlayer(id: string, chassis: ChassisKind = 'standard'): GameEvent[] {
+    const spawn = this.spawnPosition();
+    const stats = this.baseStats(id, chassis);
+    const player: Player = {
+      id,
+      x: spawn.x,
+      y: spawn.y,
+      angle: 0,
+      color: this.randomColor(),
+      hp: stats.maxHp,
+      maxHp: stats.maxHp,
+      exp: 0,
+      level: 1,
+      maxExp: 100,
+      chassis,
+      stats,
+      immuneUntil: 0,
+      pendingLevelUp: false,
+      upgrades: [],
+      isBot: false
+    };
+
+    this.state.players.set(id, player);
+    this.interest.watch(id);
+    const { entered } = this.interest.refresh(id, player, this.getEntities());
+    this.emit('gameState', { ...entered, map: this.options.map }, { to: id });
+    if (this.tick > 0) {
+      this.emit('waveStarted', this.waveStarted(), { to: id });
+    }
+    if (this.bossFight) {
+      this.emit('bossStatus', this.bossStatus(this.bossFight.enemy), { to: id });
+    }
+    this.emitNear('playerJoined', player, 'players', player);
+    return this.flush();
+  }
+
+  removePlayer(id: string): GameEvent[] {
+    this.state.players.delete(id);
+    this.movement.delete(id);
+    this.levelUps.delete(id);
+    this.lastShotAt.delete(id);
+    this.botBrains.delete(id);
+    this.flowFields.delete(id);
+    this.effects.delete(id);
+    this.abilityUses.delete(id);
+    this.snapshots.forget(id);
+    this.interest.forget(id);
+    this.state.bullets = this.state.bullets.filter(bullet => {
+      if (bullet.playerId !== id) return true;
+      this.bulletHits.delete(bullet.id);
+      return false;
+    });
+    this.emitToViewers('playerLeft', id, 'players', id, true);
+    return this.flush();
+  }
+
+  queueMove(id: string, move: PlayerMoveInput): GameEvent[] {
+    const player = this.state.players.get(id);
+    if (player && player.hp > 0 && Number.isInteger(move?.seq)) {
+      // Applied in order on the next step. Stale or duplicate inputs are dropped;
+      // overflow is dropped too but still acknowledged so the client stops replaying it.
+      const movement = this.movementOf(id);
+      if (move.seq <= movement.lastSeq) return this.flush();
+      movement.lastSeq = move.seq;
+      if (movement.inputs.length < MAX_QUEUED_INPUTS) {
+        movement.inputs.push(move);
+      }
+    }
+    return this.flush();
+  }
+
+  /**
+   * Fires the player's weapon if its cooldown allows. The muzzle position is
+   * derived from the server's own position; only the aim comes from the client.
+   */
+  shoot(id: string, angle: number): GameEvent[] {
+    const shooter = this.state.players.get(id);
+    if (shooter && shooter.hp > 0 && Number.isFinite(angle)) {
+      this.tryFire(shooter, angle, FIRE_RATE_GRACE_MS);
+    }
+    return this.flush();
+  }
+
+  /** Uses the player's ability if its cooldown allows; a dash heads along `angle`. */
+  useAbility(id: string, angle: number): GameEvent[] {
+    const player = this.state.players.get(id);
+    if (player && player.hp > 0 && Number.isFinite(angle)) {
+      this.tryAbility(player, angle);
+    }
+    return this.flush();
+  }
+
+  /** Records the latest snapshot the client has applied; later deltas are encoded against it. */
+  ackSnapshot(id: string, tick: number): GameEvent[] {
+    if (this.state.players.has(id)) {
+      this.snapshots.ack(id, tick);
+    }
+    return this.flush();
+  }
+
+  respawn(id: string): GameEvent[] {
+    const player = this.state.players.get(id);
+    if (player && player.hp <= 0) {
+      this.respawnPlayer(player);
+    }
+    return this.flush();
+  }
+
+  /** Takes one of the offered cards; anything not on offer is ignored. */
+  selectUpgrade(id: string, upgradeId: string): GameEvent[] {
+    const player = this.state.players.get(id);
+    const upgrade = this.levelUps.get(id)?.offered.find(u => u.id === upgradeId);
+    if (player?.pendingLevelUp && upgrade) {
+      this.resolveLevelUp(player, upgrade);
+    }
+    return this.flush();
+  }
+
+  rerollUpgrades(id: string): GameEvent[] {
+    const player = this.state.players.get(id);
+    const levelUp = this.levelUps.get(id);
+    if (player?.pendingLevelUp && levelUp && levelUp.rerolls > 0) {
+      levelUp.rerolls--;
+      levelUp.offered = this.dealUpgrades(LEVEL_UP_CARDS, player, levelUp.reward, levelUp.banished);
+      this.emitLevelUpOptions(player, levelUp);
+    }
+    return this.flush();
+  }
+
+  /** Removes an offered card for the rest of this life and deals a replacement. */
+  banishUpgrade(id: string, upgradeId: string): GameEvent[] {
+    const player = this.state.players.get(id);
+    const levelUp = this.levelUps.get(id);
+    const index = levelUp?.offered.findIndex(u => u.id === upgradeId) ?? -1;
+    if (player?.pendingLevelUp && levelUp && levelUp.banishes > 0 && index >= 0) {
+      levelUp.banishes--;
+      levelUp.banished.add(upgradeId);
+      const excluded = new Set([...levelUp.banished, ...levelUp.offered.map(u => u.id)]);
+      const replacement = this.dealUpgrades(1, player, levelUp.reward, excluded);
+      levelUp.offered.splice(index, 1, ...replacement);
+      this.emitLevelUpOptions(player, levelUp);
+    }
+    return this.flush();
+  }
+
+  skipUpgrade(id: string): GameEvent[] {
+    const player = this.state.players.get(id);
+    if (player?.pendingLevelUp && this.levelUps.has(id)) {
+      this.resolveLevelUp(player, null);
+    }
+    return this.flush();
+  }
+
+  debugLevelUp(id: string): GameEvent[] {
+    const player = this.state.players.get(id);
+    if (player) {
+      player.exp = player.maxExp;
+      this.checkLevelUp(player);
+    }
+    return this.flush();
+  }
+
+  spawnBot(difficulty: BotDifficulty = 'normal'): Player {
+    const id = this.createId('bot');
+    this.botBrainOf(id, difficulty);
+    const spawn = this.freeSpawnPosition(TANK_RADIUS);
+    const stats = this.baseStats(id, 'standard');
+    const bot: Player = {
+      id,
+      x: spawn.x,
+      y: spawn.y,
+      angle: this.random() * Math.PI * 2,
+      color: this.randomColor(),
+      hp: stats.maxHp,
+      maxHp: stats.maxHp,
+      exp: 0,
+      level: 1,
+      maxExp: 100,
+      chassis: 'standard',
+      stats,
+      immuneUntil: 0,
+      pendingLevelUp: false,
+      upgrades: [],
+      isBot: true
+    };
+
+    this.state.players.set(id, bot);
+    this.emitNear('playerJoined', bot, 'players', bot);
+    return bot;
+  }
+
+  spawnEnemy(type: EnemyType = rollEnemyType(this.options.random, this.wave.wave)): Enemy | null {
+    const { x, y } = this.enemySpawnPoint(ENEMY_TYPES[type].size);
+    return this.spawnEnemyAt(type, x, y);
+  }
+
+  /** Null when a few tries found no free spot; a respawning orb tries again next tick. */
+  spawnOrb(): Orb | null {
+    let point: MapPoint | null = null;
+    for (let i = 0; i < SPAWN_ATTEMPTS && !point; i++) {
+      const candidate = this.randomPointIn(this.options.map.orbZones, 50);
+      if (!this.checkCollision(candidate.x, candidate.y, 10)) point = candidate;
+    }
+    if (!point) return null;
+
+    const orb: Orb = { id: this.createId('orb'), ...point, value: 20 };
+    this.state.orbs.push(orb);
+    this.emitNear('orbSpawned', orb, 'orbs', orb);
+    return orb;
+  }
+
+  checkCollision(x: number, y: number, radius: number): boolean {
+    const { width, height } = this.options.map;
+    if (x < radius || x > width - radius || y < radius || y > height - radius) {
+      return true;
+    }
+
+    for (const obs of this.index.obstacles.query(x, y, radius)) {
+      const closestX = Math.max(obs.x, Math.min(x, obs.x + obs.width));
+      const closestY = Math.max(obs.y, Math.min(y, obs.y + obs.height));
+      const distanceX = x - closestX;
+      const distanceY = y - closestY;
+      const distanceSquared = (distanceX * distanceX) + (distanceY * distanceY);
+
+      if (distanceSquared < (radius * radius)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private updatePlayers(dtMs: number) {
+    for (const [id, movement] of this.movement) {
+      const player = this.state.players.get(id);
+      if (!player) continue;
+
+      movement.budgetMs = Math.min(movement.budgetMs + dtMs, MAX_MOVE_BUDGET_MS);
+      if (movement.inputs.length === 0) continue;
+
+      for (const input of movement.inputs) {
+        if (player.hp <= 0) break;
+        this.applyMoveInput(player, movement, input);
+      }
+      movement.inputs = [];
+      movement.ackPending = true;
+    }
+  }
+
+  /** Moves the player as far as the input is allowed to; the ack tells the client where that was. */
+  private applyMoveInput(player: Player, movement: MovementState, input: PlayerMoveInput) {
+    const values = [input.dx, input.dy, input.angle, input.dt];
+    if (values.some(v => typeof v !== 'number' || !Number.isFinite(v))) return;
+
+    player.angle = input.angle;
+
+    const dtMs = Math.min(Math.max(0, input.dt), MAX_INPUT_DT_MS, movement.budgetMs);
+    movement.budgetMs -= dtMs;
+
+    let dx = Math.max(-1, Math.min(1, input.dx));
+    let dy = Math.max(-1, Math.min(1, input.dy));
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length === 0) return;
+    if (length > 1) {
+      dx /= length;
+      dy /= length;
+    }
+
+    const distance = player.stats.moveSpeed * this.speedFactor(player.id) * (dtMs / 1000);
+    const nextX = player.x + dx * distance;
+    const nextY = player.y + dy * distance;
+    if (this.checkCollision(nextX, nextY, TANK_RADIUS)) return;
+
+    player.x = nextX;
+    player.y = nextY;
+  }
+
+  private movementOf(id: string): MovementState {
+    let movement = this.movement.get(id);
+    if (!movement) {
+      movement = { inputs: [], budgetMs: 0, lastSeq: -1, ackPending: false };
+      this.movement.set(id, movement);
+    }
+    return movement;
+  }
+
+  private updateEnemies(dt: number, dtMs: number) {
+    const { plan, started, spawns } = this.director.tick(dtMs, this.crowd());
+    this.wave = plan;
+    if (started) {
+      this.emit('waveStarted', this.waveStarted());
+    }
+    const cap = Math.min(plan.maxEnemies, this.options.maxEnemies);
+    for (let i = 0; i < spawns && this.state.enemies.length < cap; i++) {
+      this.spawnEnemy();
+    }
+    if (!this.bossFight) {
+      this.bossTimer += dtMs;
+      if (this.bossTimer >= this.options.bossIntervalMs && this.spawnEnemy('boss')) {
+        this.bossTimer = 0;
+      }
+    }
+
+    this.reindexPlayers();
+    for (const enemy of this.state.enemies) {
+      const brain = this.brainOf(enemy);
+      brain.contactCooldownMs = Math.max(0, brain.contactCooldownMs - dtMs);
+      if (this.isStunned(enemy.id)) continue;
+
+      const target = this.index.players.nearest(enemy.x, enemy.y, Infinity, player => player.hp > 0);
+      if (!target) continue;
+
+      const dx = target.x - enemy.x;
+      const dy = target.y - enemy.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const angle = Math.atan2(dy, dx);
+      const heading = this.enemyHeading(enemy, target, angle);
+      const definition = ENEMY_TYPES[enemy.type];
+
+      if (definition.boss) {
+        this.updateBoss(enemy, brain, definition.boss, definition.charge, angle, heading, distance, dt, dtMs);
+      } else if (definition.ranged) {
+        this.updateRangedEnemy(enemy, brain, definition.ranged, angle, heading, distance, dt, dtMs);
+      } else if (definition.charge) {
+        this.updateCharger(enemy, brain, definition.charge, angle, heading, distance, dt, dtMs);
+      } else if (distance > 1) {
+        this.moveEnemy(enemy, heading, enemy.speed * dt);
+      }
+
+      if (distance < enemy.size + TANK_RADIUS && brain.contactCooldownMs === 0) {
+        brain.contactCooldownMs = CONTACT_INTERVAL_MS;
+        this.damagePlayer(target, enemy.damage);
+      }
+    }
+  }
+
+  /** Keeps its distance and shoots through the same bullet pipeline as tanks. */
+  private updateRangedEnemy(
+    enemy: Enemy,
+    brain: EnemyBrain,
+    ranged: NonNullable<EnemyDefinition['ranged']>,
+    angle: number,
+    heading: number,
+    distance: number,
+    dt: number,
+    dtMs: number,
+  ) {
+    brain.fireCooldownMs = Math.max(0, brain.fireCooldownMs - dtMs);
+    if (distance > ranged.range) {
+      this.moveEnemy(enemy, heading, enemy.speed * dt);
+    } else if (distance < ranged.range * RANGED_RETREAT_RATIO) {
+      this.moveEnemy(enemy, angle + Math.PI, enemy.speed * dt);
+    }
+
+    if (distance <= ranged.range && brain.fireCooldownMs === 0) {
+      brain.fireCooldownMs = ranged.fireIntervalMs;
+      this.addEnemyBullet(enemy, angle, ranged);
+    }
+  }
+
+  /** Walks in, stops to telegraph, then dashes in a straight line it cannot steer. */
+  private updateCharger(
+    enemy: Enemy,
+    brain: EnemyBrain,
+    charge: NonNullable<EnemyDefinition['charge']>,
+    angle: number,
+    heading: number,
+    distance: number,
+    dt: number,
+    dtMs: number,
+  ) {
+    brain.phaseMs = Math.max(0, brain.phaseMs - dtMs);
+    if (enemy.phase === 'windup' || enemy.phase === 'dash') {
+      this.advanceCharge(enemy, brain, charge, dt);
+    } else if (distance <= charge.range && brain.phaseMs === 0) {
+      this.startCharge(enemy, brain, charge, angle);
+    } else if (distance > 1) {
+      this.moveEnemy(enemy, heading, enemy.speed * dt);
+    }
+  }
+
+  private startCharge(enemy: Enemy, brain: EnemyBrain, charge: NonNullable<EnemyDefinition['charge']>, angle: number) {
+    enemy.phase = 'windup';
+    brain.phaseMs = charge.windupMs;
+    brain.dashAngle = angle;
+  }
+
+  /** Turns a finished windup into a dash, and ends the dash when it runs out or hits a wall. */
+  private advanceCharge(enemy: Enemy, brain: EnemyBrain, charge: NonNullable<EnemyDefinition['charge']>, dt: number) {
+    if (enemy.phase === 'windup') {
+      if (brain.phaseMs === 0) {
+        enemy.phase = 'dash';
+        brain.phaseMs = charge.dashMs;
+      }
+    } else {
+      const moved = this.moveEnemy(enemy, brain.dashAngle, charge.dashSpeed * dt, false);
+      if (!moved || brain.phaseMs === 0) {
+        enemy.phase = 'stalk';
+        brain.phaseMs = charge.cooldownMs;
+      }
+    }
+  }
+
+  /** Follows the nearest tank and takes the attacks of its current stage in turn. */
+  private updateBoss(
+    enemy: Enemy,
+    brain: EnemyBrain,
+    boss: BossDefinition,
+    charge: EnemyDefinition['charge'],
+    angle: number,
+    heading: number,
+    distance: number,
+    dt: number,
+    dtMs: number,
+  ) {
+    brain.phaseMs = Math.max(0, brain.phaseMs - dtMs);
+    if (charge && (enemy.phase === 'windup' || enemy.phase === 'dash')) {
+      this.advanceCharge(enemy, brain, charge, dt);
+      return;
+    }
+    if (distance > enemy.size) {
+      this.moveEnemy(enemy, heading, enemy.speed * dt);
+    }
+
+    brain.attackCooldownMs = Math.max(0, brain.attackCooldownMs - dtMs);
+    if (brain.attackCooldownMs > 0) return;
+
+    const stage = boss.stages[bossStage(boss, enemy.hp, enemy.maxHp)];
+    const attack = stage.attacks[brain.attackIndex++ % stage.attacks.length];
+    brain.attackCooldownMs = stage.attackIntervalMs;
+    if (attack === 'burst') {
+      for (let i = 0; i < boss.burst.bullets; i++) {
+        this.addEnemyBullet(enemy, angle + (i / boss.burst.bullets) * Math.PI * 2, boss.burst);
+      }
+    } else if (attack === 'summon') {
+      for (let i = 0; i < boss.summon.count; i++) {
+        const around = (i / boss.summon.count) * Math.PI * 2;
+        const reach = enemy.size * 2;
+        this.spawnEnemyAt(boss.summon.type, enemy.x + Math.cos(around) * reach, enemy.y + Math.sin(around) * reach);
+      }
+    } else if (charge && distance <= charge.range) {
+      this.startCharge(enemy, brain, charge, angle);
+    }
+  }
+
+  /** Fires from the enemy's edge through the same bullet pipeline as tanks. */
+  private addEnemyBullet(
+    enemy: Enemy,
+    angle: number,
+    shot: { bulletSpeed: number; bulletDamage: number; bulletLifeTime: number },
+  ) {
+    const muzzle = enemy.size + BULLET_RADIUS;
+    this.addBullet({
+      x: enemy.x + Math.cos(angle) * muzzle,
+      y: enemy.y + Math.sin(angle) * muzzle,
+      angle,
+      playerId: enemy.id,
+      damage: Math.round(shot.bulletDamage * this.brainOf(enemy).damageMultiplier),
+      speed: shot.bulletSpeed,
+      ttl: shot.bulletLifeTime,
+      kind: 'shell',
+      hostile: true
+    });
+  }
+
+  /** Steps an enemy, sliding along whatever blocks it unless told not to; false when it did not move. */
+  private moveEnemy(enemy: Enemy, angle: number, distance: number, slide = true): boolean {
+    const step = distance * this.speedFactor(enemy.id);
+    const dx = Math.cos(angle) * step;
+    const dy = Math.sin(angle) * step;
+    return slide ? this.slide(enemy, dx, dy, enemy.size) : this.moveIfFree(enemy, dx, dy, enemy.size);
+  }
+
+  /** Straight at the target when nothing is in the way, otherwise down a flow field towards it. */
+  private enemyHeading(enemy: Enemy, target: Player, direct: number): number {
+    const grid = this.navGridFor(enemy.size);
+    if (grid.clearLine(enemy, target)) return direct;
+
+    const clearance = this.clearanceFor(enemy.size);
+    let fields = this.flowFields.get(target.id);
+    if (!fields) {
+      fields = new Map();
+      this.flowFields.set(target.id, fields);
+    }
+    let cached = fields.get(clearance);
+    if (!cached || this.elapsedMs >= cached.expiresAt) {
+      cached = { field: grid.flowField(target), expiresAt: this.elapsedMs + REPATH_MS };
+      fields.set(clearance, cached);
+    }
+    return cached.field.direction(enemy.x, enemy.y) ?? direct;
+  }
+
+  private spawnEnemyAt(type: EnemyType, x: number, y: number): Enemy | null {
+    const definition = ENEMY_TYPES[type];
+    if (this.checkCollision(x, y, definition.size)) return null;
+
+    const [minSpeed, maxSpeed] = definition.speed;
+    const { hpMultiplier, damageMultiplier, expMultiplier } = this.wave;
+    const hp = Math.round(definition.hp * hpMultiplier);
+    const enemy: Enemy = {
+      id: this.createId('enemy'),
+      type,
+      x,
+      y,
+      hp,
+      maxHp: hp,
+      speed: minSpeed + this.random() * (maxSpeed - minSpeed),
+      size: definition.size,
+      damage: Math.round(definition.damage * damageMultiplier),
+      expValue: Math.round(definition.expValue * expMultiplier)
+    };
+    if (definition.charge) enemy.phase = 'stalk';
+    this.brainOf(enemy).damageMultiplier = damageMultiplier;
+
+    this.state.enemies.push(enemy);
+    this.emitNear('enemySpawned', enemy, 'enemies', enemy);
+    if (definition.boss) {
+      this.bossFight = { enemy, damageBy: new Map(), statusDirty: false };
+      this.emit('bossStatus', this.bossStatus(enemy));
+    }
+    return enemy;
+  }
+
+  private brainOf(enemy: Enemy): EnemyBrain {
+    let brain = this.brains.get(enemy.id);
+    if (!brain) {
+      // Ranged enemies and bosses hold their first attack so spawning next to a tank is not an instant hit.
+      const definition = ENEMY_TYPES[enemy.type];
+      const fireCooldownMs = definition.ranged?.fireIntervalMs ?? 0;
+      const attackCooldownMs = definition.boss?.stages[0].attackIntervalMs ?? 0;
+      brain = {
+        contactCooldownMs: 0,
+        fireCooldownMs,
+        phaseMs: 0,
+        dashAngle: 0,
+        attackCooldownMs,
+        attackIndex: 0,
+        damageMultiplier: 1
+      };
+      this.brains.set(enemy.id, brain);
+    }
+    return brain;
+  }
+
+  /** Applies damage unless the player is immune; a kill pays the attacker and respawns bots. */
+  private damagePlayer(player: Player, amount: number, attacker?: Player) {
+    if (player.immuneUntil > this.options.now()) return;
+
+    player.hp -= amount;
+    if (player.hp <= 0) {
+      player.hp = 0;
+      this.effects.delete(player.id);
+      if (player.isBot) {
+        this.respawnPlayer(player);
+      } else {
+        this.emit('playerDied', undefined, { to: player.id });
+      }
+      if (attacker) {
+        attacker.exp += 50;
+        this.checkLevelUp(attacker);
+      }
+    }
+
+    this.emitToViewers('playerHit', this.hitPayload(player), 'players', player.id);
+    if (attacker) {
+      this.emitToViewers('playerExpUpdate', this.expUpdate(attacker), 'players', attacker.id);
+    }
+  }
+
+  private respawnPlayer(player: Player) {
+    this.movement.delete(player.id);
+    this.levelUps.delete(player.id);
+    this.abilityUses.delete(player.id);
+    this.routes.delete(player.id);
+    const botBrain = this.botBrains.get(player.id);
+    if (botBrain) {
+      botBrain.state = 'roam';
+      botBrain.decideInMs = 0;
+    }
+
+    // Reset level, exp, and upgrades
+    player.level = 1;
+    player.exp = 0;
+    player.maxExp = 100;
+    player.upgrades = [];
+    player.pendingLevelUp = false;
+
+    // Reset stats to the chassis' defaults
+    player.stats = this.baseStats(player.id, player.chassis);
+
+    // Reset HP to new maxHp
+    player.maxHp = player.stats.maxHp;
+    player.hp = player.maxHp;
+
+    // Respawn at one of the map's spawn points
+    const spawn = this.spawnPosition();
+    player.x = spawn.x;
+    player.y = spawn.y;
+    player.immuneUntil = this.options.now() + 3000;
+    this.index.players.insert(player, player.x, player.y, TANK_RADIUS);
+
+    this.emitToViewers('playerHit', this.hitPayload(player), 'players', player.id);
+    this.emitToViewers('playerImmunity', { id: player.id, immuneUntil: player.immuneUntil }, 'players', player.id);
+    this.emitToViewers('playerExpUpdate', this.expUpdate(player, true), 'players', player.id);
+  }
+
+  private tryFire(shooter: Player, angle: number, graceMs = 0): boolean {
+    if (this.isStunned(shooter.id)) return false;
+    const now = this.options.now();
+    const lastShot = this.lastShotAt.get(shooter.id);
+    const fireRate = shooter.stats.fireRate * this.fireRateFactor(shooter.id, now);
+    if (lastShot !== undefined && now - lastShot < fireRate - graceMs) {
+      return false;
+    }
+
+    this.lastShotAt.set(shooter.id, now);
+    shooter.angle = angle;
+    const x = shooter.x + Math.cos(angle) * MUZZLE_OFFSET;
+    const y = shooter.y + Math.sin(angle) * MUZZLE_OFFSET;
+    this.spawnBullets(shooter, x, y, angle);
+    return true;
+  }
+
+  private tryAbility(player: Player, angle: number): boolean {
+    const now = this.options.now();
+    if (this.isStunned(player.id) || now < (this.abilityUses.get(player.id)?.readyAt ?? 0)) return false;
+
+    const ability = player.stats.ability;
+    const definition = ABILITIES[ability];
+    const cooldownMs = definition.cooldownMs * (CHASSIS[player.chassis].passive?.abilityCooldownMultiplier ?? 1);
+    const use: AbilityUse = { ability, readyAt: now + cooldownMs, activeUntil: now + definition.durationMs };
+    this.abilityUses.set(player.id, use);
+
+    if (ability === 'dash') {
+      this.dash(player, angle, definition.dashDistance ?? 0);
+    } else if (ability === 'shield') {
+      player.immuneUntil = Math.max(player.immuneUntil, use.activeUntil);
+      this.emitToViewers('playerImmunity', { id: player.id, immuneUntil: player.immuneUntil }, 'players', player.id);
+    }
+    this.emitToViewers('abilityUsed', {
+      id: player.id,
+      ability,
+      cooldownMs,
+      readyAt: use.readyAt,
+      activeUntil: use.activeUntil
+    }, 'players', player.id);
+    return true;
+  }
+
+  private dash(player: Player, angle: number, distance: number) {
+    const dx = Math.cos(angle) * DASH_STEP;
+    const dy = Math.sin(angle) * DASH_STEP;
+    for (let d = 0; d < distance; d += DASH_STEP) {
+      if (!this.moveIfFree(player, dx, dy, TANK_RADIUS)) break;
+    }
+    // The client predicted none of this; the next snapshot's ack puts it where the dash ended.
+    if (!player.isBot) this.movementOf(player.id).ackPending = true;
+  }
+
+  private fireRateFactor(id: string, now: number): number {
+    const use = this.abilityUses.get(id);
+    const multiplier = use && now < use.activeUntil ? ABILITIES[use.ability].fireRateMultiplier : undefined;
+    return multiplier ?? 1;
+  }
+
+  private shieldUntil(id: string): number {
+    const use = this.abilityUses.get(id);
+    return use?.ability === 'shield' ? use.activeUntil : 0;
+  }
+
+  private spawnBullets(shooter: Player, x: number, y: number, angle: number) {
+    const damage = shooter.stats.bulletDamage;
+    const count = shooter.stats.bulletCount;
+    const spread = shooter.stats.spreadAngle * (Math.PI / 180);
+
+    let startAngle = angle;
+    let stepAngle = 0;
+
+    if (count > 1) {
+      startAngle = angle - spread / 2;
+      stepAngle = spread / (count - 1);
+    }
+
+    for (let i = 0; i < count; i++) {
+      const currentAngle = (count === 1) ? startAngle : startAngle + (stepAngle * i);
+      this.launch(this.playerBullet(shooter, x, y, currentAngle, damage));
+    }
+
+    if (shooter.stats.rearGuard) {
+      const rearAngle = angle + Math.PI;
+      const rearX = x - Math.cos(angle) * (MUZZLE_OFFSET * 2);
+      const rearY = y - Math.sin(angle) * (MUZZLE_OFFSET * 2);
+      this.launch(this.playerBullet(shooter, rearX, rearY, rearAngle, damage));
+    }
+  }
+
+  private playerBullet(shooter: Player, x: number, y: number, angle: number, damage: number): Omit<Bullet, 'id'> {
+    const weapon = WEAPONS[shooter.stats.weapon];
+    const shot: Omit<Bullet, 'id'> = {
+      kind: weapon.projectile,
+      x,
+      y,
+      angle,
+      playerId: shooter.id,
+      damage,
+      speed: shooter.stats.bulletSpeed * weapon.speedMultiplier,
+      ttl: shooter.stats.bulletLifeTime
+    };
+    // Mines, flames and lasers neither pierce nor ricochet.
+    if (shot.kind === 'shell' || shot.kind === 'missile') {
+      if (shooter.stats.pierce > 0) shot.pierce = shooter.stats.pierce;
+      if (shooter.stats.bounces > 0) shot.bounces = shooter.stats.bounces;
+      if (shooter.stats.bulletRadius !== BULLET_RADIUS) shot.radius = shooter.stats.bulletRadius;
+    }
+
+    if (weapon.missile) {
+      shot.turnRate = weapon.missile.turnRate;
+      const target = this.nearestOf(shot, this.targetsNear(shot, x, y, weapon.missile.seekRange));
+      if (target) shot.targetId = target.id;
+    } else if (weapon.mine) {
+      shot.flightMs = weapon.mine.flightMs;
+      shot.blastRadius = weapon.mine.blastRadius;
+      shot.ttl = weapon.mine.lifeTimeMs;
+    } else if (weapon.flame) {
+      shot.length = weapon.flame.range;
+      shot.arc = weapon.flame.arc;
+      shot.ttl = weapon.flame.visibleMs;
+    } else if (weapon.laser) {
+      shot.length = weapon.laser.range;
+      shot.ttl = weapon.laser.visibleMs;
+    }
+    return shot;
+  }
+
+  // Flames and lasers do their damage as they are fired; their bullet only lives long enough to be drawn.
+  private launch(shot: Omit<Bullet, 'id'>) {
+    if (shot.kind === 'flame') {
+      this.burnCone(shot);
+    } else if (shot.kind === 'laser') {
+      shot.length = this.fireLaser(shot);
+    }
+    this.addBullet(shot);
+  }
+
+  /** Damages everything in the flame cone that no wall shields. */
+  private burnCone(shot: Omit<Bullet, 'id'>) {
+    const reach = shot.length ?? 0;
+    const halfArc = (shot.arc ?? 0) / 2;
+    const shooter = this.state.players.get(shot.playerId);
+    for (const target of this.targetsNear(shot, shot.x, shot.y, reach)) {
+      const radius = hitRadius(target);
+      const distance = Math.hypot(target.x - shot.x, target.y - shot.y);
+      if (distance - radius > reach) continue;
+
+      const off = Math.atan2(target.y - shot.y, target.x - shot.x) - shot.angle;
+      const edge = Math.atan2(radius, Math.max(distance, 1));
+      if (Math.abs(Math.atan2(Math.sin(off), Math.cos(off))) > halfArc + edge) continue;
+      if (this.wallBetween(shot, target)) continue;
+      this.damageTarget(target, shot.damage, shooter);
+    }
+  }
+
+  /** Damages the first thing the beam crosses and returns how far the beam got. */
+  private fireLaser(shot: Omit<Bullet, 'id'>): number {
+    const dirX = Math.cos(shot.angle);
+    const dirY = Math.sin(shot.angle);
+    let reach = shot.length ?? 0;
+    for (let d = BEAM_STEP; d < reach; d += BEAM_STEP) {
+      if (this.checkCollision(shot.x + dirX * d, shot.y + dirY * d, BULLET_RADIUS)) {
+        reach = d;
+        break;
+      }
+    }
+
+    let hit: Player | Enemy | null = null;
+    const middle = { x: shot.x + dirX * reach / 2, y: shot.y + dirY * reach / 2 };
+    for (const target of this.targetsNear(shot, middle.x, middle.y, reach / 2)) {
+      const along = (target.x - shot.x) * dirX + (target.y - shot.y) * dirY;
+      const across = Math.abs((target.y - shot.y) * dirX - (target.x - shot.x) * dirY);
+      if (along < 0 || along > reach || across > hitRadius(target)) continue;
+      hit = target;
+      reach = along;
+    }
+    if (hit) this.damageTarget(hit, shot.damage, this.state.players.get(shot.playerId));
+    return reach;
+  }
+
+  private wallBetween(from: MapPoint, to: MapPoint): boolean {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    for (let d = BEAM_STEP; d < distance; d += BEAM_STEP) {
+      const t = d / distance;
+      if (this.checkCollision(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, BULLET_RADIUS)) return true;
+    }
+    return false;
+  }
+
+  /** Everything a shot could hurt near a point: players other than the shooter, and enemies unless it is theirs. */
+  private targetsNear(shot: Pick<Bullet, 'playerId' | 'hostile'>, x: number, y: number, radius: number): (Player | Enemy)[] {
+    const players = this.index.players.query(x, y, radius).filter(p => p.id !== shot.playerId && p.hp > 0);
+    const enemies = shot.hostile ? [] : this.index.enemies.query(x, y, radius).filter(e => e.hp > 0);
+    return [...players, ...enemies];
+  }
+
+  // Effects go on first so a killing hit clears them along with everything else.
+  private damageTarget(target: Player | Enemy, amount: number, shooter?: Player) {
+    const immune = !isEnemy(target) && target.immuneUntil > this.options.now();
+    if (shooter && !immune) this.applyHitEffects(target, shooter);
+
+    const longShot = shooter && CHASSIS[shooter.chassis].passive?.longShot;
+    if (longShot && Math.hypot(target.x - shooter.x, target.y - shooter.y) >= longShot.distance) {
+      amount *= longShot.damageMultiplier;
+    }
+    if (isEnemy(target)) {
+      this.damageEnemy(target, amount, shooter);
+    } else {
+      this.damagePlayer(target, amount, shooter);
+    }
+  }
+
+  private applyHitEffects(target: Player | Enemy, shooter: Player) {
+    const shrugsOff = isEnemy(target) ? undefined : CHASSIS[target.chassis].passive?.shrugsOff;
+    for (const kind of shooter.stats.hitEffects) {
+      const { chance } = STATUS_EFFECTS[kind];
+      if (shrugsOff?.includes(kind) || (chance < 1 && this.random() >= chance)) continue;
+
+      let effects = this.effects.get(target.id);
+      if (!effects) {
+        effects = [];
+        this.effects.set(target.id, effects);
+      }
+      applyEffect(effects, kind, shooter.id);
+    }
+  }
+
+  /** Deals the damage the effects have due, credited to whoever applied them, and lets them wear off. */
+  private updateEffects(dtMs: number) {
+    if (this.effects.size === 0) return;
+    const enemies = new Map(this.state.enemies.map(e => [e.id, e]));
+
+    for (const [id, effects] of [...this.effects]) {
+      const target = this.state.players.get(id) ?? enemies.get(id);
+      if (!target || target.hp <= 0) {
+        this.effects.delete(id);
+        continue;
+      }
+
+      for (const tick of tickEffects(effects, dtMs)) {
+        // Dying (and a bot's respawn) clears the effects; nothing more is owed.
+        if (this.effects.get(id) !== effects) break;
+        const source = tick.sourceId ? this.state.players.get(tick.sourceId) : undefined;
+        if (isEnemy(target)) {
+          this.damageEnemy(target, tick.damage, source);
+        } else {
+          this.damagePlayer(target, tick.damage, source);
+        }
+      }
+      if (effects.length === 0) this.effects.delete(id);
+    }
+  }
+
+  private speedFactor(id: string): number {
+    const effects = this.effects.get(id);
+    return effects ? effectSpeedMultiplier(effects.map(e => e.kind)) : 1;
+  }
+
+  private isStunned(id: string): boolean {
+    return this.effects.get(id)?.some(e => e.kind === 'stun') ?? false;
+  }
+
+  private addBullet(shot: Omit<Bullet, 'id'>) {
+    const bullet: Bullet = { id: this.createId(shot.playerId), ...shot };
+    this.state.bullets.push(bullet);
+    this.emitNear('bulletShot', bullet, 'bullets', bullet);
+  }
+
+  private updateBullets(dt: number, dtMs: number) {
+    this.reindexPlayers();
+    this.reindexEnemies();
+
+    // Iterate over a copy: hits and kills remove bullets from state.bullets.
+    for (const bullet of [...this.state.bullets]) {
+      bullet.ttl -= dtMs;
+      if (bullet.ttl <= 0) {
+        this.removeBullet(bullet.id);
+        continue;
+      }
+
+      if (bullet.kind === 'flame' || bullet.kind === 'laser') continue;
+      if (bullet.kind === 'mine') {
+        this.updateMine(bullet, dt, dtMs);
+        continue;
+      }
+      if (bullet.kind === 'missile') this.steerMissile(bullet, dt);
+
+      const walls = this.index.obstacles.query(bullet.x, bullet.y, bullet.speed * dt + (bullet.radius ?? BULLET_RADIUS));
+      const open = moveBullet(bullet, dt, this.options.map, walls);
+      if (this.hitTarget(bullet) || !open) {
+        this.removeBullet(bullet.id);
+      }
+    }
+  }
+
+  /**
+   * Damages the first thing the bullet touches that it has not already gone
+   * through, and returns whether that stopped it.
+   */
+  private hitTarget(bullet: Bullet): boolean {
+    const hits = this.bulletHits.get(bullet.id);
+    const radius = bullet.radius ?? BULLET_RADIUS;
+    const target = this.targetsNear(bullet, bullet.x, bullet.y, radius).find(t =>
+      !hits?.has(t.id) && Math.hypot(t.x - bullet.x, t.y - bullet.y) < hitRadius(t) + radius);
+    if (!target) return false;
+
+    this.damageTarget(target, bullet.damage, this.state.players.get(bullet.playerId));
+    if (!bullet.pierce) return true;
+
+    bullet.pierce--;
+    this.bulletHits.set(bullet.id, (hits ?? new Set<string>()).add(target.id));
+    return false;
+  }
+
+  /** Turns a missile towards its target as fast as it can; once the target is gone it flies straight. */
+  private steerMissile(missile: Bullet, dt: number) {
+    const id = missile.targetId;
+    const target = id ? this.state.players.get(id) ?? this.state.enemies.find(e => e.id === id) : undefined;
+    if (!target || target.hp <= 0) return;
+
+    const off = Math.atan2(target.y - missile.y, target.x - missile.x) - missile.angle;
+    const turn = (missile.turnRate ?? 0) * dt;
+    missile.angle += Math.max(-turn, Math.min(turn, Math.atan2(Math.sin(off), Math.cos(off))));
+  }
+
+  // Mines fly until they land or hit a wall, then wait for something to come close.
+  private updateMine(mine: Bullet, dt: number, dtMs: number) {
+    if ((mine.flightMs ?? 0) > 0) {
+      mine.flightMs = Math.max(0, (mine.flightMs ?? 0) - dtMs);
+      const x = mine.x + Math.cos(mine.angle) * mine.speed * dt;
+      const y = mine.y + Math.sin(mine.angle) * mine.speed * dt;
+      if (this.checkCollision(x, y, BULLET_RADIUS)) {
+        mine.flightMs = 0;
+      } else {
+        mine.x = x;
+        mine.y = y;
+      }
+      return;
+    }
+
+    const trigger = WEAPONS.mine.mine?.triggerRadius ?? 0;
+    const near = this.targetsNear(mine, mine.x, mine.y, trigger);
+    if (near.some(t => Math.hypot(t.x - mine.x, t.y - mine.y) < trigger + hitRadius(t))) {
+      this.explodeMine(mine);
+    }
+  }
+
+  private explodeMine(mine: Bullet) {
+    const radius = mine.blastRadius ?? 0;
+    const shooter = this.state.players.get(mine.playerId);
+    this.emitToViewers('bulletExploded', { id: mine.id, x: mine.x, y: mine.y, radius }, 'bullets', mine.id);
+    this.removeBullet(mine.id);
+    for (const target of this.targetsNear(mine, mine.x, mine.y, radius)) {
+      if (Math.hypot(target.x - mine.x, target.y - mine.y) < radius + hitRadius(target)) {
+        this.damageTarget(target, mine.damage, shooter);
+      }
+    }
+  }
+
+  private damageEnemy(enemy: Enemy, amount: number, shooter?: Player) {
+    const damage = Math.max(1, amount - ENEMY_TYPES[enemy.type].armor);
+    enemy.hp -= damage;
+    if (this.bossFight?.enemy === enemy) {
+      this.bossFight.statusDirty = true;
+      if (shooter) {
+        this.bossFight.damageBy.set(shooter.id, (this.bossFight.damageBy.get(shooter.id) ?? 0) + damage);
+      }
+    }
+    if (enemy.hp <= 0) {
+      this.killEnemy(enemy, shooter);
+    }
+  }
+
+  private killEnemy(enemy: Enemy, killer?: Player) {
+    this.state.enemies = this.state.enemies.filter(e => e !== enemy);
+    this.index.enemies.remove(enemy);
+    this.brains.delete(enemy.id);
+    this.effects.delete(enemy.id);
+    this.emitToViewers('enemyDied', enemy.id, 'enemies', enemy.id, true);
+
+    const definition = ENEMY_TYPES[enemy.type];
+    if (definition.boss && this.bossFight?.enemy === enemy) {
+      this.defeatBoss(this.bossFight, definition.boss);
+    } else {
+      this.dropOrb(enemy.x, enemy.y, 10);
+    }
+
+    const split = definition.splitsInto;
+    for (let i = 0; split && i < split.count; i++) {
+      const angle = (i / split.count) * Math.PI * 2;
+      const child = this.spawnEnemyAt(split.type, enemy.x + Math.cos(angle) * enemy.size, enemy.y + Math.sin(angle) * enemy.size);
+      // Later bullets this step can already hit the pieces.
+      if (child) this.index.enemies.insert(child, child.x, child.y, child.size);
+    }
+
+    if (killer) {
+      killer.exp += enemy.expValue;
+      this.checkLevelUp(killer);
+      this.emitToViewers('playerExpUpdate', this.expUpdate(killer), 'players', killer.id);
+    }
+  }
+
+  /** Scatters the boss's chest and hands the top surviving damage dealer a reward pick. */
+  private defeatBoss(fight: BossFight, boss: BossDefinition) {
+    const { enemy } = fight;
+    this.bossFight = null;
+    this.bossTimer = 0;
+
+    for (let i = 0; i < boss.chest.orbs; i++) {
+      const angle = (i / boss.chest.orbs) * Math.PI * 2;
+      const distance = boss.chest.radius * (0.5 + this.random() * 0.5);
+      const x = enemy.x + Math.cos(angle) * distance;
+      const y = enemy.y + Math.sin(angle) * distance;
+      if (this.checkCollision(x, y, 10)) {
+        this.dropOrb(enemy.x, enemy.y, boss.chest.orbValue);
+      } else {
+        this.dropOrb(x, y, boss.chest.orbValue);
+      }
+    }
+
+    let top: Player | undefined;
+    let topDamage = 0;
+    fight.damageBy.forEach((damage, id) => {
+      const player = this.state.players.get(id);
+      if (player && player.hp > 0 && damage > topDamage) {
+        top = player;
+        topDamage = damage;
+      }
+    });
+
+    this.emit('bossDefeated', { id: enemy.id, topDamagerId: top?.id ?? null });
+    if (top) {
+      this.grantBossReward(top);
+    }
+  }
+
+  private grantBossReward(player: Player) {
+    if (player.isBot) {
+      const upgrade = pickBotUpgrade(this.dealUpgrades(LEVEL_UP_CARDS, player, true, new Set()), this.botBrainOf(player.id).archetype);
+      if (upgrade) {
+        this.applyUpgrade(player, upgrade);
+        this.emitToViewers('playerExpUpdate', this.expUpdate(player, true), 'players', player.id);
+      }
+      return;
+    }
+    this.levelUpOf(player.id).rewardsOwed++;
+    this.checkLevelUp(player);
+  }
+
+  private bossStatus(enemy: Enemy): BossStatusPayload {
+    const boss = ENEMY_TYPES[enemy.type].boss as BossDefinition;
+    const hp = Math.max(0, enemy.hp);
+    return {
+      id: enemy.id,
+      name: boss.name,
+      hp,
+      maxHp: enemy.maxHp,
+      stage: bossStage(boss, hp, enemy.maxHp) + 1,
+      stages: boss.stages.length
+    };
+  }
+
+  /** Who the wave director scales for: the humans in the room and their average level. */
+  private crowd(): Crowd {
+    const humans = Array.from(this.state.players.values()).filter(p => !p.isBot);
+    const averageLevel = humans.length > 0 ? humans.reduce((sum, p) => sum + p.level, 0) / humans.length : 1;
+    return { players: humans.length, averageLevel };
+  }
+
+  private waveStarted(): WaveStartedPayload {
+    return {
+      wave: this.wave.wave,
+      newTypes: newEnemyTypes(this.wave.wave),
+      hpMultiplier: this.wave.hpMultiplier,
+      damageMultiplier: this.wave.damageMultiplier
+    };
+  }
+
+  private dropOrb(x: number, y: number, value: number) {
+    const orb: Orb = { id: this.createId('orb'), x, y, value };
+    this.state.orbs.push(orb);
+    this.emitNear('orbSpawned', orb, 'orbs', orb);
+  }
+
+  private removeBullet(bulletId: string) {
+    this.state.bullets = this.state.bullets.filter(b => b.id !== bulletId);
+    this.bulletHits.delete(bulletId);
+    this.emitToViewers('bulletRemoved', bulletId, 'bullets', bulletId, true);
+  }
+
+  private updateOrbs(dtMs: number) {
+    this.orbRespawnTimers = this.orbRespawnTimers
+      .map(remaining => remaining - dtMs)
+      .filter(remaining => {
+        return remaining > 0 || !this.spawnOrb();
+      });
+
+    this.reindexOrbs();
+    const collected = new Set<Orb>();
+    for (const player of this.state.players.values()) {
+      if (player.hp <= 0) continue;
+      this.collectOrbs(player, collected);
+    }
+    if (collected.size > 0) {
+      this.state.orbs = this.state.orbs.filter(orb => !collected.has(orb));
+    }
+  }
+
+  private collectOrbs(player: Player, collected: Set<Orb>) {
+    for (const orb of this.index.orbs.query(player.x, player.y, player.stats.pickupRange)) {
+      const dx = player.x - orb.x;
+      const dy = player.y - orb.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist >= player.stats.pickupRange) continue;
+
+      collected.add(orb);
+      this.index.orbs.remove(orb);
+      player.exp += orb.value;
+      this.checkLevelUp(player);
+      this.emitToViewers('orbCollected', orb.id, 'orbs', orb.id, true);
+      this.emitToViewers('playerExpUpdate', this.expUpdate(player), 'players', player.id);
+      this.orbRespawnTimers.push(this.options.orbRespawnMs);
+    }
+  }
+
+  private reindexPlayers() {
+    this.index.players.clear();
+    this.state.players.forEach(player => this.index.players.insert(player, player.x, player.y, TANK_RADIUS));
+  }
+
+  private reindexEnemies() {
+    this.index.enemies.clear();
+    this.state.enemies.forEach(enemy => this.index.enemies.insert(enemy, enemy.x, enemy.y, enemy.size));
+  }
+
+  private reindexOrbs() {
+    this.index.orbs.clear();
+    this.state.orbs.forEach(orb => this.index.orbs.insert(orb, orb.x, orb.y));
+  }
+
+  private updateRegen(dtMs: number) {
+    this.regenTimer += dtMs;
+    if (this.regenTimer < this.options.regenIntervalMs) return;
+    this.regenTimer -= this.options.regenIntervalMs;
+
+    for (const player of this.state.players.values()) {
+      if (player.stats.regenRate > 0 && player.hp < player.maxHp) {
+        player.hp = Math.min(player.hp + player.stats.regenRate * (this.options.regenIntervalMs / 1000), player.maxHp);
+        if (player.hp > 0) {
+          this.emitToViewers('playerHit', this.hitPayload(player), 'players', player.id);
+        }
+      }
+    }
+  }
+
+  // One frame per interval for each human: first what crossed the edge of their
+  // area of interest, then a snapshot of what is in it, delta-encoded against
+  // the last one they acked.
+  private updateSnapshots(dtMs: number) {
+    this.snapshotTimer += dtMs;
+    if (this.snapshotTimer < this.options.snapshotIntervalMs) return;
+    this.snapshotTimer -= this.options.snapshotIntervalMs;
+
+    // The boss bar is room-wide and follows the snapshot rate rather than every hit.
+    if (this.bossFight?.statusDirty) {
+      this.bossFight.statusDirty = false;
+      this.emit('bossStatus', this.bossStatus(this.bossFight.enemy));
+    }
+
+    const world = this.getEntities();
+    for (const player of this.state.players.values()) {
+      if (player.isBot) continue;
+
+      const { entered, left } = this.interest.refresh(player.id, player, world);
+      if (Object.values(entered).some(list => list.length > 0)) {
+        this.emit('entitiesEntered', entered, { to: player.id });
+      }
+      if (Object.values(left).some(list => list.length > 0)) {
+        this.emit('entitiesLeft', left, { to: player.id });
+      }
+
+      const frame = captureFrame(
+        this.tick,
+        world.players.filter(p => this.interest.sees(player.id, 'players', p.id)),
+        world.enemies.filter(e => this.interest.sees(player.id, 'enemies', e.id)),
+        id => {
+          const effects = this.effects.get(id);
+          return effects ? effectMask(effects.map(e => e.kind)) : 0;
+        },
+      );
+      const snapshot = this.snapshots.encode(player.id, frame);
+      const movement = this.movement.get(player.id);
+      if (movement?.ackPending) {
+        snapshot.input = { seq: movement.lastSeq, x: player.x, y: player.y };
+        movement.ackPending = false;
+      }
+      this.emit('worldSnapshot', snapshot, { to: player.id });
+    }
+  }
+
+  private checkLevelUp(player: Player) {
+    const rewardOwed = (this.levelUps.get(player.id)?.rewardsOwed ?? 0) > 0;
+    if ((player.exp >= player.maxExp || rewardOwed) && !player.pendingLevelUp) {
+      player.pendingLevelUp = true;
+      if (!player.isBot) {
+        this.sendLevelUpOptions(player);
+      } else {
+        this.botLevelUp(player);
+      }
+    }
+  }
+
+  private sendLevelUpOptions(player: Player) {
+    const levelUp = this.levelUpOf(player.id);
+    levelUp.reward = levelUp.rewardsOwed > 0;
+    if (levelUp.reward) levelUp.rewardsOwed--;
+    levelUp.offered = this.dealUpgrades(LEVEL_UP_CARDS, player, levelUp.reward, levelUp.banished);
+
+    levelUp.immuneBefore = player.immuneUntil;
+    player.immuneUntil = this.options.now() + LEVEL_UP_WINDOW_MS;
+    this.emitToViewers('playerImmunity', { id: player.id, immuneUntil: player.immuneUntil }, 'players', player.id);
+    this.emitLevelUpOptions(player, levelUp);
+  }
+
+  private emitLevelUpOptions(player: Player, levelUp: LevelUpState) {
+    const offer: LevelUpOptionsPayload = {
+      options: levelUp.offered.map(describeUpgrade),
+      rerolls: levelUp.rerolls,
+      banishes: levelUp.banishes,
+      skipExp: this.skipExp(player),
+      autoPickAt: player.immuneUntil
+    };
+    if (levelUp.reward) offer.reward = true;
+    this.emit('levelUpOptions', offer, { to: player.id });
+  }
+
+  /** Boss rewards stick to high rarities for as long as the player has any left to get. */
+  private dealUpgrades(count: number, player: Player, reward: boolean, excluded: ReadonlySet<string>): UpgradeDefinition[] {
+    if (reward) {
+      const cards = generateUpgrades(count, player, this.options.random, excluded, BOSS_REWARD_RARITIES);
+      if (cards.length > 0) return cards;
+    }
+    return generateUpgrades(count, player, this.options.random, excluded);
+  }
+
+  /**
+   * Ends a pending level up with `upgrade`, or with bonus exp instead when it
+   * is null. A boss reward is picked the same way but leaves the level alone.
+   */
+  private resolveLevelUp(player: Player, upgrade: UpgradeDefinition | null) {
+    const levelUp = this.levelUpOf(player.id);
+    const bonusExp = upgrade ? 0 : this.skipExp(player);
+    if (upgrade) {
+      this.applyUpgrade(player, upgrade);
+    }
+
+    if (levelUp.reward) {
+      levelUp.reward = false;
+      player.exp += bonusExp;
+    } else {
+      player.level++;
+      player.exp = Math.max(0, player.exp - player.maxExp) + bonusExp;
+      player.maxExp = Math.floor(player.maxExp * 1.2);
+    }
+    player.hp = player.stats.maxHp;
+    player.maxHp = player.stats.maxHp;
+
+    player.pendingLevelUp = false;
+    player.immuneUntil = Math.max(levelUp.immuneBefore, this.shieldUntil(player.id));
+    levelUp.offered = [];
+
+    this.emit('levelUpResolved', { upgradeId: upgrade?.id ?? null }, { to: player.id });
+    this.emitToViewers('playerExpUpdate', this.expUpdate(player, true), 'players', player.id);
+    this.emitToViewers('playerImmunity', { id: player.id, immuneUntil: player.immuneUntil }, 'players', player.id);
+    this.checkLevelUp(player);
+  }
+
+  /** Players who let the immunity window run out get the first card on offer. */
+  private updateLevelUps() {
+    const now = this.options.now();
+    this.levelUps.forEach((levelUp, id) => {
+      const player = this.state.players.get(id);
+      if (player?.pendingLevelUp && now >= player.immuneUntil) {
+        this.resolveLevelUp(player, levelUp.offered[0] ?? null);
+      }
+    });
+  }
+
+  private levelUpOf(id: string): LevelUpState {
+    let levelUp = this.levelUps.get(id);
+    if (!levelUp) {
+      levelUp = {
+        offered: [],
+        rerolls: REROLLS_PER_LIFE,
+        banishes: BANISHES_PER_LIFE,
+        banished: new Set(),
+        rewardsOwed: 0,
+        reward: false,
+        immuneBefore: 0
+      };
+      this.levelUps.set(id, levelUp);
+    }
+    return levelUp;
+  }
+
+  private skipExp(player: Player): number {
+    return Math.floor(player.maxExp * SKIP_EXP_RATIO);
+  }
+
+  private updateBots(dt: number, dtMs: number) {
+    if (!this.botsSpawned && this.elapsedMs >= this.options.botSpawnDelayMs) {
+      this.botsSpawned = true;
+      botLineup(this.options.botCount, this.options.botMix).forEach(difficulty => this.spawnBot(difficulty));
+    }
+
+    const now = this.options.now();
+    const bots = Array.from(this.state.players.values()).filter(p => p.isBot);
+    const isTarget = (p: Player) => !p.isBot && p.hp > 0 && p.immuneUntil < now;
+    this.reindexPlayers();
+    this.reindexEnemies();
+    this.reindexOrbs();
+
+    bots.forEach(bot => {
+      if (bot.hp <= 0) return;
+
+      const brain = this.botBrainOf(bot.id);
+      const tier = BOT_TIERS[brain.difficulty];
+      const target = this.index.players.nearest(bot.x, bot.y, tier.sightRange, isTarget);
+      const threat = this.index.enemies.nearest(bot.x, bot.y, BOT_FLEE_RANGE, enemy => enemy.hp > 0);
+      const orb = this.index.orbs.nearest(bot.x, bot.y, BOT_ORB_RANGE);
+
+      // Bots only change their mind every so often; the slower the tier, the longer it takes.
+      brain.decideInMs -= dtMs;
+      if (brain.decideInMs <= 0) {
+        brain.decideInMs = tier.reactionMs;
+        brain.aimOffset = (this.random() * 2 - 1) * tier.aimError;
+        brain.state = nextBotState(brain.state, {
+          hpRatio: bot.hp / bot.maxHp,
+          targetDistance: target ? Math.hypot(target.x - bot.x, target.y - bot.y) : null,
+          threatDistance: threat ? Math.hypot(threat.x - bot.x, threat.y - bot.y) : null,
+          orbInReach: orb !== null,
+        }, tier);
+      }
+
+      // Whatever a state was about may be gone by now; the bot roams until it next decides.
+      const danger = brain.state === 'flee' ? threat : this.nearestOf(bot, [target, threat]);
+      if (brain.state === 'engage' && target) {
+        this.botEngage(bot, brain, target, dt);
+      } else if ((brain.state === 'retreat' || brain.state === 'flee') && danger) {
+        this.botBackOff(bot, danger, dt);
+      } else if (!(brain.state === 'collect' && orb && this.botDriveTo(bot, orb, 0.2, bot.stats.moveSpeed, dt))) {
+        this.botRoam(bot, brain, dt);
+      }
+      this.botAbility(bot, brain.state);
+    });
+  }
+
+  // Dashes and shields are saved for getting a hurt bot away; an overcharge for a fight.
+  private botAbility(bot: Player, state: BotState) {
+    if (state === (bot.stats.ability === 'overcharge' ? 'engage' : 'retreat')) {
+      this.tryAbility(bot, bot.angle);
+    }
+  }
+
+  private botEngage(bot: Player, brain: BotBrain, target: Player, dt: number) {
+    const distance = Math.hypot(target.x - bot.x, target.y - bot.y);
+    const aim = Math.atan2(target.y - bot.y, target.x - bot.x) + brain.aimOffset;
+    // Behind a wall the bot walks its route instead of shooting the wall.
+    const inSight = this.navGridFor(TANK_RADIUS).clearLine(bot, target);
+    const heading = inSight ? aim : this.botHeading(bot, target);
+    this.steer(bot, heading ?? aim, 0.3);
+
+    const range = brain.archetype.preferredRange;
+    const speed = bot.stats.moveSpeed * dt;
+    if ((!inSight && heading !== null) || distance > range + BOT_RANGE_SLACK) {
+      this.tryMove(bot, Math.cos(bot.angle) * speed, Math.sin(bot.angle) * speed);
+    } else if (distance < range - BOT_RANGE_SLACK) {
+      this.tryMove(bot, -Math.cos(bot.angle) * speed, -Math.sin(bot.angle) * speed);
+    }
+
+    const aimDiff = aim - bot.angle;
+    if (inSight && Math.abs(Math.atan2(Math.sin(aimDiff), Math.cos(aimDiff))) < 0.2) {
+      this.tryFire(bot, bot.angle);
+    }
+  }
+
+  private botBackOff(bot: Player, danger: MapPoint, dt: number) {
+    this.steer(bot, Math.atan2(bot.y - danger.y, bot.x - danger.x), 0.3);
+    const speed = bot.stats.moveSpeed * dt;
+    this.tryMove(bot, Math.cos(bot.angle) * speed, Math.sin(bot.angle) * speed);
+  }
+
+  // Heads for a random spot on the map, picking another once there or if it cannot be reached.
+  private botRoam(bot: Player, brain: BotBrain, dt: number) {
+    const goal = brain.roamGoal;
+    const arrived = !goal || Math.hypot(goal.x - bot.x, goal.y - bot.y) < ROAM_ARRIVAL_DISTANCE;
+    if (arrived || !this.botDriveTo(bot, goal, 0.2, bot.stats.moveSpeed * ROAM_SPEED_RATIO, dt)) {
+      brain.roamGoal = this.randomPointIn([], 100);
+    }
+  }
+
+  /** Turns towards `goal` along the navigation grid and drives on; false when there is no way there. */
+  private botDriveTo(bot: Player, goal: MapPoint, turnRate: number, speed: number, dt: number): boolean {
+    const heading = this.botHeading(bot, goal);
+    if (heading === null) return false;
+    this.steer(bot, heading, turnRate);
+    this.tryMove(bot, Math.cos(bot.angle) * speed * dt, Math.sin(bot.angle) * speed * dt);
+    return true;
+  }
+
+  private steer(bot: Player, heading: number, turnRate: number) {
+    const diff = heading - bot.angle;
+    bot.angle += Math.atan2(Math.sin(diff), Math.cos(diff)) * turnRate;
+  }
+
+  private nearestOf<T extends MapPoint>(from: MapPoint, points: (T | null)[]): T | null {
+    let nearest: T | null = null;
+    let nearestDistance = Infinity;
+    for (const point of points) {
+      const distance = point ? Math.hypot(point.x - from.x, point.y - from.y) : Infinity;
+      if (distance < nearestDistance) {
+        nearest = point;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  private botBrainOf(id: string, difficulty: BotDifficulty = 'normal'): BotBrain {
+    let brain = this.botBrains.get(id);
+    if (!brain) {
+      brain = {
+        difficulty,
+        archetype: BOT_ARCHETYPES[Math.floor(this.random() * BOT_ARCHETYPES.length)],
+        state: 'roam',
+        decideInMs: 0,
+        aimOffset: 0,
+        roamGoal: null
+      };
+      this.botBrains.set(id, brain);
+    }
+    return brain;
+  }
+
+  // One of the map's spawn points, or anywhere on an open map.
+  private spawnPosition(): MapPoint {
+    const points = this.options.map.spawnPoints;
+    if (points.length === 0) return this.randomPointIn([], 100);
+
+    const point = points[Math.floor(this.random() * points.length)];
+    return { x: point.x, y: point.y };
+  }
+
+  // A spawn position that is not in a wall, within a few tries. Map spawn points
+  // are checked when the map loads, so only maps without any can miss; those fall
+  // back to the first open navigation cell.
+  private freeSpawnPosition(radius: number): MapPoint {
+    for (let i = 0; i < SPAWN_ATTEMPTS; i++) {
+      const point = this.spawnPosition();
+      if (!this.checkCollision(point.x, point.y, radius)) return point;
+    }
+
+    const grid = this.navGridFor(radius);
+    for (let cell = 0; cell < grid.cols * grid.rows; cell++) {
+      if (grid.isOpen(cell)) return grid.centerOf(cell);
+    }
+    return this.spawnPosition();
+  }
+
+  // A free spot in the enemy zones that no human can see, or failing that the
+  // free spot furthest from everyone out of a handful of tries.
+  private enemySpawnPoint(radius: number): MapPoint {
+    const humans = Array.from(this.state.players.values()).filter(p => !p.isBot && p.hp > 0);
+    let best: MapPoint | null = null;
+    let bestDistance = -1;
+    for (let i = 0; i < SPAWN_ATTEMPTS; i++) {
+      const point = this.randomPointIn(this.options.map.enemyZones, 50);
+      if (this.checkCollision(point.x, point.y, radius)) continue;
+
+      const distance = Math.min(...humans.map(h => Math.hypot(h.x - point.x, h.y - point.y)));
+      if (distance >= OFFSCREEN_DISTANCE) return point;
+      if (distance > bestDistance) {
+        best = point;
+        bestDistance = distance;
+      }
+    }
+    return best ?? this.randomPointIn(this.options.map.enemyZones, 50);
+  }
+
+  // Uniform over the zones' combined area, or anywhere at least `margin` from the edge.
+  private randomPointIn(zones: MapZone[], margin: number): MapPoint {
+    if (zones.length === 0) {
+      const { width, height } = this.options.map;
+      return {
+        x: this.random() * (width - margin * 2) + margin,
+        y: this.random() * (height - margin * 2) + margin,
+      };
+    }
+
+    let roll = this.random() * zones.reduce((sum, zone) => sum + zone.width * zone.height, 0);
+    const zone = zones.find(z => (roll -= z.width * z.height) < 0) ?? zones[zones.length - 1];
+    return {
+      x: zone.x + this.random() * zone.width,
+      y: zone.y + this.random() * zone.height,
+    };
+  }
+
+  private tryMove(player: Player, dx: number, dy: number) {
+    const factor = this.speedFactor(player.id);
+    this.slide(player, dx * factor, dy * factor, TANK_RADIUS);
+  }
+
+  // Takes the whole step if it is free, or else whichever single axis of it is.
+  private slide(mover: MapPoint, dx: number, dy: number, radius: number): boolean {
+    return this.moveIfFree(mover, dx, dy, radius)
+      || (dx !== 0 && this.moveIfFree(mover, dx, 0, radius))
+      || (dy !== 0 && this.moveIfFree(mover, 0, dy, radius));
+  }
+
+  private moveIfFree(mover: MapPoint, dx: number, dy: number, radius: number): boolean {
+    if (this.checkCollision(mover.x + dx, mover.y + dy, radius)) return false;
+    mover.x += dx;
+    mover.y += dy;
+    return true;
+  }
+
+  /**
+   * Where a bot should head for `goal`: straight there when nothing is in the
+   * way, otherwise along an A* route refreshed every REPATH_MS. Null when the
+   * goal cannot be reached.
+   */
+  private botHeading(bot: Player, goal: MapPoint): number | null {
+    const grid = this.navGridFor(TANK_RADIUS);
+    if (grid.clearLine(bot, goal)) {
+      this.routes.delete(bot.id);
+      return Math.atan2(goal.y - bot.y, goal.x - bot.x);
+    }
+
+    const goalCell = grid.cellOf(goal.x, goal.y);
+    let route = this.routes.get(bot.id);
+    if (!route || route.goal !== goalCell || this.elapsedMs >= route.repathAt) {
+      route = { goal: goalCell, path: grid.findPath(bot, goal) ?? [], repathAt: this.elapsedMs + REPATH_MS };
+      this.routes.set(bot.id, route);
+    }
+
+    // Skip ahead to the furthest waypoint already in sight.
+    const { path } = route;
+    while (path.length > 1 && grid.clearLine(bot, path[1])) path.shift();
+    if (path.length === 0) return null;
+    return Math.atan2(path[0].y - bot.y, path[0].x - bot.x);
+  }
+
+  private clearanceFor(radius: number): number {
+    return Math.max(NAV_CELL_SIZE / 2, Math.ceil(radius / NAV_CLEARANCE_STEP) * NAV_CLEARANCE_STEP);
+  }
+
+  // Built on first use; obstacles never move, so a grid is good for the whole match.
+  private navGridFor(radius: number): NavGrid {
+    const clearance = this.clearanceFor(radius);
+    let grid = this.navGrids.get(clearance);
+    if (!grid) {
+      const { width, height } = this.options.map;
+      grid = new NavGrid(width, height, NAV_CELL_SIZE, (x, y) => this.checkCollision(x, y, clearance + NAV_MARGIN));
+      this.navGrids.set(clearance, grid);
+    }
+    return grid;
+  }
+
+  /** Bots level up on the spot, taking whichever of the usual cards suits their build. */
+  private botLevelUp(bot: Player) {
+    const upgrade = pickBotUpgrade(generateUpgrades(LEVEL_UP_CARDS, bot, this.options.random), this.botBrainOf(bot.id).archetype);
+    if (upgrade) {
+      this.applyUpgrade(bot, upgrade);
+    }
+    bot.level++;
+    bot.exp = 0;
+    bot.maxExp = Math.floor(bot.maxExp * 1.2);
+    bot.hp = bot.stats.maxHp;
+    bot.pendingLevelUp = false;
+
+    this.emitToViewers('playerExpUpdate', this.expUpdate(bot, true), 'players', bot.id);
+  }
+
+  private applyUpgrade(player: Player, upgrade: UpgradeDefinition) {
+    player.upgrades.push(describeUpgrade(upgrade));
+    player.stats = computeStats(this.baseStats(player.id, player.chassis), player.upgrades);
+  }
+
+  // The chassis swaps in its numbers, and bots those of their difficulty on top.
+  private baseStats(id: string, chassis: ChassisKind): PlayerStats {
+    const stats = { ...BASE_STATS, ...CHASSIS[chassis].stats };
+    const brain = this.botBrains.get(id);
+    return brain ? { ...stats, ...BOT_TIERS[brain.difficulty].stats } : stats;
+  }
+
+  private hitPayload(player: Player): PlayerHitPayload {
+    return {
+      id: player.id,
+      hp: player.hp,
+      maxHp: player.maxHp,
+      x: player.x,
+      y: player.y
+    };
+  }
+
+  private expUpdate(player: Player, withLoadout = false): PlayerExpUpdatePayload {
+    const payload: PlayerExpUpdatePayload = {
+      id: player.id,
+      exp: player.exp,
+      maxExp: player.maxExp,
+      level: player.level,
+      hp: player.hp,
+      maxHp: withLoadout ? player.stats.maxHp : player.maxHp
+    };
+    if (withLoadout) {
+      payload.stats = player.stats;
+      payload.upgrades = player.upgrades;
+    }
+    return payload;
+  }
+
+  private emit<K extends ServerEventName>(
+    type: K,
+    payload: ServerEventPayload<K>,
+    target: { to?: string; except?: string } = {},
+  ) {
+    this.events.push({ type, payload, ...target } as GameEvent);
+  }
+
+  // Spawns reach the humans in range, who from then on know about the entity.
+  private emitNear<K extends ServerEventName>(
+    type: K,
+    payload: ServerEventPayload<K>,
+    kind: InterestKind,
+    entity: { id: string; x: number; y: number },
+  ) {
+    for (const clientId of this.interest.clients()) {
+      const viewer = this.state.players.get(clientId);
+      if (!viewer || this.interest.sees(clientId, kind, entity.id) || !this.interest.inRange(viewer, entity)) continue;
+      this.interest.see(clientId, kind, entity.id);
+      this.emit(type, payload, { to: clientId });
+    }
+  }
+
+  // Updates reach only the humans who know about the entity; removals also end that.
+  private emitToViewers<K extends ServerEventName>(
+    type: K,
+    payload: ServerEventPayload<K>,
+    kind: InterestKind,
+    id: string,
+    forget = false,
+  ) {
+    for (const clientId of this.interest.viewersOf(kind, id, forget)) {
+      this.emit(type, payload, { to: clientId });
+    }
+  }
+
+  private flush(): GameEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}-${++this.nextId}`;
+  }
+
+  private randomColor(): string {
+    return this.colors[Math.floor(this.random() * this.colors.length)];
+  }
+
+  private random(): number {
+    return this.options.random();
+  }
+}
@@ -0,0 +1,14 @@
+import { ServerEventName, ServerEventPayload } from '@tiny-tanks-time/protocol';
+
+/**
+ * A domain event produced by the engine. Without `to` it is meant for every
+ * participant; `to` addresses a single player and `except` skips one.
+ */
+export type GameEvent = {
+  [K in ServerEventName]: {
+    type: K;
+    payload: ServerEventPayload<K>;
+    to?: string;
+    except?: string;
+  };
+}[ServerEventName];
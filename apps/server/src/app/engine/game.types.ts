@@ -0,0 +1,42 @@
+import { AbilityKind, Bullet, Enemy, Orb, Player, PlayerStats, StatusEffectKind, Upgrade, WeaponKind } from '@tiny-tanks-time/protocol';
+
+export type NumericStat = { [K in keyof PlayerStats]: PlayerStats[K] extends number ? K : never }[keyof PlayerStats];
+export type FlagStat = { [K in keyof PlayerStats]: PlayerStats[K] extends boolean ? K : never }[keyof PlayerStats];
+
+export type UpgradeTag = 'offense' | 'defense' | 'mobility' | 'utility';
+
+/**
+ * One change to a numeric stat. Every `add` is summed onto the base value
+ * first, the `mul`s are then multiplied in, and `atLeast` is applied last.
+ */
+export interface StatModifier {
+  stat: NumericStat;
+  add?: number;
+  mul?: number;
+  atLeast?: number;
+}
+
+/** Server-side upgrade: the wire `Upgrade` plus the data describing its effect. */
+export interface UpgradeDefinition extends Upgrade {
+  /** Every one of these must be owned before the upgrade is offered; evolutions need two or more. */
+  prerequisites?: string[];
+  /** How many times the upgrade can be picked; each pick applies its modifiers again. */
+  maxStacks: number;
+  tags: UpgradeTag[];
+  modifiers: StatModifier[];
+  /** Boolean stats switched on while the upgrade is owned. */
+  flags?: FlagStat[];
+  /** Swaps the cannon for this weapon; a player only ever owns one weapon upgrade. */
+  weapon?: WeaponKind;
+  /** Takes the ability slot; a player only ever owns one ability upgrade. */
+  ability?: AbilityKind;
+  /** Status effect the owner's hits put on their target. */
+  hitEffect?: StatusEffectKind;
+}
+
+export interface GameState {
+  players: Map<string, Player>;
+  bullets: Bullet[];
+  orbs: Orb[];
+  enemies: Enemy[];
+}
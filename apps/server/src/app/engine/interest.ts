@@ -0,0 +1,100 @@
+import { EntitiesLeftPayload, EntitiesPayload } from '@tiny-tanks-time/protocol';
+
+export type InterestKind = keyof EntitiesPayload;
+
+const KINDS: InterestKind[] = ['players', 'enemies', 'orbs', 'bullets'];
+
+// Entities leave a view a little further out than they enter it, so anything
+// hovering on the boundary does not flicker in and out every refresh.
+const LEAVE_MARGIN = 200;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type View = Record<InterestKind, Set<string>>;
+
+/**
+ * Tracks which entities each human client currently knows about. The engine
+ * only sends a client events for entities in its view, and `refresh` works
+ * out what crossed the boundary since the last time.
+ */
+export class InterestTracker {
+  private views = new Map<string, View>();
+
+  constructor(private readonly radius: number) {}
+
+  watch(clientId: string) {
+    if (!this.views.has(clientId)) {
+      this.views.set(clientId, { players: new Set(), enemies: new Set(), orbs: new Set(), bullets: new Set() });
+    }
+  }
+
+  forget(clientId: string) {
+    this.views.delete(clientId);
+  }
+
+  clients(): string[] {
+    return Array.from(this.views.keys());
+  }
+
+  inRange(viewer: Point, target: Point, margin = 0): boolean {
+    const dx = target.x - viewer.x;
+    const dy = target.y - viewer.y;
+    const range = this.radius + margin;
+    return dx * dx + dy * dy <= range * range;
+  }
+
+  sees(clientId: string, kind: InterestKind, id: string): boolean {
+    return !!this.views.get(clientId)?.[kind].has(id);
+  }
+
+  see(clientId: string, kind: InterestKind, id: string) {
+    this.views.get(clientId)?.[kind].add(id);
+  }
+
+  /** Clients that currently know about the entity; with `forget` they stop knowing. */
+  viewersOf(kind: InterestKind, id: string, forget = false): string[] {
+    const viewers: string[] = [];
+    this.views.forEach((view, clientId) => {
+      if (!view[kind].has(id)) return;
+      viewers.push(clientId);
+      if (forget) view[kind].delete(id);
+    });
+    return viewers;
+  }
+
+  /** Brings a client's view up to date with the world and returns what entered and left it. */
+  refresh(clientId: string, viewer: Point, world: EntitiesPayload): { entered: EntitiesPayload; left: EntitiesLeftPayload } {
+    const view = this.views.get(clientId);
+    const entered: EntitiesPayload = { players: [], enemies: [], orbs: [], bullets: [] };
+    const left: EntitiesLeftPayload = { players: [], enemies: [], orbs: [], bullets: [] };
+    if (!view) return { entered, left };
+
+    for (const kind of KINDS) {
+      const present = new Set<string>();
+      for (const entity of world[kind]) {
+        present.add(entity.id);
+        const known = view[kind].has(entity.id);
+        if (!known && this.inRange(viewer, entity)) {
+          view[kind].add(entity.id);
+          (entered[kind] as Point[]).push(entity);
+        } else if (known && entity.id !== clientId && !this.inRange(viewer, entity, LEAVE_MARGIN)) {
+          view[kind].delete(entity.id);
+          left[kind].push(entity.id);
+        }
+      }
+
+      // Anything gone from the world without a removal event reaching this client.
+      view[kind].forEach(id => {
+        if (!present.has(id)) {
+          view[kind].delete(id);
+          left[kind].push(id);
+        }
+      });
+    }
+
+    return { entered, left };
+  }
+}
@@ -0,0 +1,95 @@
+import { MapPoint, Obstacle } from '@tiny-tanks-time/protocol';
+import { NavGrid } from './navigation';
+
+const CELL = 40;
+const CLEARANCE = 20;
+
+// A wall down the middle of a 1000x1000 field with a gap at the bottom.
+const WALL: Obstacle = { x: 480, y: 0, width: 40, height: 880 };
+
+function gridWith(obstacles: Obstacle[]): NavGrid {
+  return new NavGrid(1000, 1000, CELL, (x, y) =>
+    x < CLEARANCE || y < CLEARANCE || x > 1000 - CLEARANCE || y > 1000 - CLEARANCE ||
+    obstacles.some(o =>
+      Math.hypot(x - Math.max(o.x, Math.min(x, o.x + o.width)), y - Math.max(o.y, Math.min(y, o.y + o.height))) < CLEARANCE));
+}
+
+function crossesWall(a: MapPoint, b: MapPoint): boolean {
+  for (let t = 0; t <= 1; t += 0.01) {
+    const x = a.x + (b.x - a.x) * t;
+    const y = a.y + (b.y - a.y) * t;
+    if (x > WALL.x && x < WALL.x + WALL.width && y > WALL.y && y < WALL.y + WALL.height) return true;
+  }
+  return false;
+}
+
+describe('NavGrid', () => {
+  it('should close the cells an agent would not fit in', () => {
+    const grid = gridWith([WALL]);
+
+    expect(grid.isOpen(grid.cellOf(500, 500))).toBe(false);
+    expect(grid.isOpen(grid.cellOf(440, 500))).toBe(true);
+    expect(grid.isOpen(grid.cellOf(500, 940))).toBe(true);
+  });
+
+  it('should see along open lines only', () => {
+    const grid = gridWith([WALL]);
+
+    expect(grid.clearLine({ x: 100, y: 500 }, { x: 400, y: 500 })).toBe(true);
+    expect(grid.clearLine({ x: 100, y: 500 }, { x: 900, y: 500 })).toBe(false);
+    expect(grid.clearLine({ x: 100, y: 940 }, { x: 900, y: 940 })).toBe(true);
+  });
+
+  it('should find a path around a wall that ends at the goal', () => {
+    const grid = gridWith([WALL]);
+    const from = { x: 200, y: 200 };
+    const to = { x: 800, y: 200 };
+
+    const path = grid.findPath(from, to) as MapPoint[];
+
+    expect(path).not.toBeNull();
+    expect(path[path.length - 1]).toEqual(to);
+    [from, ...path].reduce((a, b) => {
+      expect(crossesWall(a, b)).toBe(false);
+      return b;
+    });
+    expect(Math.max(...path.map(p => p.y))).toBeGreaterThan(WALL.height);
+  });
+
+  it('should take the straight line on an open field', () => {
+    const path = gridWith([]).findPath({ x: 100, y: 100 }, { x: 900, y: 100 }) as MapPoint[];
+    const length = [{ x: 100, y: 100 }, ...path].reduce((sum, p, i, all) =>
+      i === 0 ? 0 : sum + Math.hypot(p.x - all[i - 1].x, p.y - all[i - 1].y), 0);
+
+    expect(length).toBeCloseTo(800, 0);
+  });
+
+  it('should give up on a goal that is walled in', () => {
+    const box = [
+      { x: 700, y: 100, width: 200, height: 40 },
+      { x: 700, y: 260, width: 200, height: 40 },
+      { x: 700, y: 100, width: 40, height: 200 },
+      { x: 860, y: 100, width: 40, height: 200 },
+    ];
+
+    expect(gridWith(box).findPath({ x: 200, y: 200 }, { x: 800, y: 200 })).toBeNull();
+  });
+
+  it('should lead anyone on the map down a flow field to the goal', () => {
+    const grid = gridWith([WALL]);
+    const goal = { x: 800, y: 200 };
+    const field = grid.flowField(goal);
+
+    for (const start of [{ x: 200, y: 200 }, { x: 100, y: 900 }, { x: 400, y: 60 }]) {
+      let position = start;
+      for (let i = 0; i < 200; i++) {
+        const heading = field.direction(position.x, position.y);
+        if (heading === null) break;
+        const next = { x: position.x + Math.cos(heading) * CELL / 2, y: position.y + Math.sin(heading) * CELL / 2 };
+        expect(crossesWall(position, next)).toBe(false);
+        position = next;
+      }
+      expect(grid.cellOf(position.x, position.y)).toBe(grid.cellOf(goal.x, goal.y));
+    }
+  });
+});
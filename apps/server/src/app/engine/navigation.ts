@@ -0,0 +1,244 @@
+import { MapPoint } from '@tiny-tanks-time/protocol';
+
+// Neighbour offsets: the four straight ones first, then the diagonals.
+const STEPS: [dx: number, dy: number][] = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+/**
+ * Walkability of a map for agents of one size, on a grid of square cells.
+ * A cell is open when an agent centred in it touches nothing, so walking
+ * between the centres of neighbouring open cells never runs into a wall.
+ */
+export class NavGrid {
+  readonly cols: number;
+  readonly rows: number;
+  private readonly open: Uint8Array;
+
+  constructor(width: number, height: number, readonly cellSize: number, blocked: (x: number, y: number) => boolean) {
+    this.cols = Math.ceil(width / cellSize);
+    this.rows = Math.ceil(height / cellSize);
+    this.open = new Uint8Array(this.cols * this.rows);
+    for (let cell = 0; cell < this.open.length; cell++) {
+      const { x, y } = this.centerOf(cell);
+      this.open[cell] = blocked(x, y) ? 0 : 1;
+    }
+  }
+
+  cellOf(x: number, y: number): number {
+    const cx = Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellSize)));
+    const cy = Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+    return cy * this.cols + cx;
+  }
+
+  centerOf(cell: number): MapPoint {
+    return {
+      x: ((cell % this.cols) + 0.5) * this.cellSize,
+      y: (Math.floor(cell / this.cols) + 0.5) * this.cellSize,
+    };
+  }
+
+  isOpen(cell: number): boolean {
+    return this.open[cell] === 1;
+  }
+
+  /**
+   * Whether the straight line between two points only crosses open cells. The
+   * cells at either end do not count: whoever stands there already fits.
+   */
+  clearLine(from: MapPoint, to: MapPoint): boolean {
+    const start = this.cellOf(from.x, from.y);
+    const end = this.cellOf(to.x, to.y);
+    let cx = start % this.cols;
+    let cy = Math.floor(start / this.cols);
+    const endX = end % this.cols;
+    const endY = Math.floor(end / this.cols);
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const stepX = Math.sign(dx);
+    const stepY = Math.sign(dy);
+    // Walk the cells the line passes through, one boundary crossing at a time.
+    const crossX = Math.abs(this.cellSize / dx);
+    const crossY = Math.abs(this.cellSize / dy);
+    let nextX = stepX === 0 ? Infinity : ((stepX > 0 ? cx + 1 : cx) * this.cellSize - from.x) / dx;
+    let nextY = stepY === 0 ? Infinity : ((stepY > 0 ? cy + 1 : cy) * this.cellSize - from.y) / dy;
+
+    while (cx !== endX || cy !== endY) {
+      if (nextX < nextY) {
+        cx += stepX;
+        nextX += crossX;
+      } else {
+        cy += stepY;
+        nextY += crossY;
+      }
+      if (cx < 0 || cy < 0 || cx >= this.cols || cy >= this.rows) return true;
+      const cell = cy * this.cols + cx;
+      if (cell !== end && !this.open[cell]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Calls `visit` with each open cell one step from `cell` and the cost of the
+   * step. `goal` counts as open even when it is not, so a target standing
+   * against a wall can still be reached, and diagonals never cut a corner.
+   */
+  neighbours(cell: number, goal: number, visit: (next: number, cost: number) => void) {
+    const cx = cell % this.cols;
+    const cy = Math.floor(cell / this.cols);
+    const passable = (x: number, y: number) => {
+      if (x < 0 || y < 0 || x >= this.cols || y >= this.rows) return false;
+      const next = y * this.cols + x;
+      return next === goal || this.open[next] === 1;
+    };
+
+    for (const [dx, dy] of STEPS) {
+      if (!passable(cx + dx, cy + dy)) continue;
+      const diagonal = dx !== 0 && dy !== 0;
+      if (diagonal && (!passable(cx + dx, cy) || !passable(cx, cy + dy))) continue;
+      visit((cy + dy) * this.cols + cx + dx, diagonal ? Math.SQRT2 : 1);
+    }
+  }
+
+  /** A* from one point to another: the waypoints to walk, ending at `to`, or null when it cannot be reached. */
+  findPath(from: MapPoint, to: MapPoint): MapPoint[] | null {
+    const start = this.cellOf(from.x, from.y);
+    const goal = this.cellOf(to.x, to.y);
+    if (start === goal) return [to];
+
+    const goalX = goal % this.cols;
+    const goalY = Math.floor(goal / this.cols);
+    // Octile distance: exact on an open grid with diagonal steps.
+    const estimate = (cell: number) => {
+      const dx = Math.abs((cell % this.cols) - goalX);
+      const dy = Math.abs(Math.floor(cell / this.cols) - goalY);
+      return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+    };
+
+    const cost = new Float64Array(this.open.length).fill(Infinity);
+    const cameFrom = new Int32Array(this.open.length).fill(-1);
+    const done = new Uint8Array(this.open.length);
+    const queue = new MinHeap();
+    cost[start] = 0;
+    queue.push(start, estimate(start));
+
+    while (queue.size > 0) {
+      const cell = queue.pop();
+      if (cell === goal) break;
+      if (done[cell]) continue;
+      done[cell] = 1;
+
+      this.neighbours(cell, goal, (next, step) => {
+        const total = cost[cell] + step;
+        if (total >= cost[next]) return;
+        cost[next] = total;
+        cameFrom[next] = cell;
+        queue.push(next, total + estimate(next));
+      });
+    }
+    if (cameFrom[goal] < 0) return null;
+
+    const path = [to];
+    for (let cell = cameFrom[goal]; cell !== start; cell = cameFrom[cell]) {
+      path.push(this.centerOf(cell));
+    }
+    return path.reverse();
+  }
+
+  /** Distances from every cell to `to`, for any number of agents heading to the same place. */
+  flowField(to: MapPoint): FlowField {
+    const goal = this.cellOf(to.x, to.y);
+    const distances = new Float64Array(this.open.length).fill(Infinity);
+    const queue = new MinHeap();
+    distances[goal] = 0;
+    queue.push(goal, 0);
+
+    while (queue.size > 0) {
+      const distance = queue.peekPriority();
+      const cell = queue.pop();
+      if (distance > distances[cell]) continue;
+
+      this.neighbours(cell, goal, (next, step) => {
+        if (distance + step >= distances[next]) return;
+        distances[next] = distance + step;
+        queue.push(next, distance + step);
+      });
+    }
+    return new FlowField(this, goal, distances);
+  }
+}
+
+export class FlowField {
+  constructor(
+    private readonly grid: NavGrid,
+    private readonly goal: number,
+    private readonly distances: Float64Array,
+  ) {}
+
+  /** Heading from a point down the field, or null at the goal or anywhere cut off from it. */
+  direction(x: number, y: number): number | null {
+    const cell = this.grid.cellOf(x, y);
+    let best = -1;
+    let bestDistance = this.distances[cell];
+    this.grid.neighbours(cell, this.goal, (next) => {
+      if (this.distances[next] < bestDistance) {
+        best = next;
+        bestDistance = this.distances[next];
+      }
+    });
+    if (best < 0) return null;
+
+    const target = this.grid.centerOf(best);
+    return Math.atan2(target.y - y, target.x - x);
+  }
+}
+
+/** Binary min-heap of cell indices keyed by priority. */
+class MinHeap {
+  private cells: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  peekPriority(): number {
+    return this.priorities[0];
+  }
+
+  push(cell: number, priority: number) {
+    let i = this.cells.length;
+    this.cells.push(cell);
+    this.priorities.push(priority);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.cells[i] = this.cells[parent];
+      this.priorities[i] = this.priorities[parent];
+      i = parent;
+    }
+    this.cells[i] = cell;
+    this.priorities[i] = priority;
+  }
+
+  pop(): number {
+    const top = this.cells[0];
+    const lastCell = this.cells.pop() as number;
+    const lastPriority = this.priorities.pop() as number;
+    const size = this.cells.length;
+    if (size === 0) return top;
+
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      if (left >= size) break;
+      const right = left + 1;
+      const child = right < size && this.priorities[right] < this.priorities[left] ? right : left;
+      if (this.priorities[child] >= lastPriority) break;
+      this.cells[i] = this.cells[child];
+      this.priorities[i] = this.priorities[child];
+      i = child;
+    }
+    this.cells[i] = lastCell;
+    this.priorities[i] = lastPriority;
+    return top;
+  }
+}
@@ -0,0 +1,62 @@
+import { Enemy, Player, SnapshotFrame, applySnapshot } from '@tiny-tanks-time/protocol';
+import { SnapshotHistory, captureFrame } from './snapshots';
+
+function player(id: string, x: number, y: number): Player {
+  return { id, x, y, angle: 0, hp: 100, maxHp: 100, exp: 0, level: 1, maxExp: 100 } as Player;
+}
+
+function enemy(id: string, x: number, y: number): Enemy {
+  return { id, type: 'grunt', x, y, hp: 10, maxHp: 10, speed: 60, size: 15, damage: 1, expValue: 10 };
+}
+
+describe('SnapshotHistory', () => {
+  it('should quantize positions and angles', () => {
+    const frame = captureFrame(1, [{ ...player('a', 10.04, 20.06), angle: 1.23456 }], []);
+
+    expect(frame.players.get('a')).toMatchObject({ x: 10, y: 20.1, angle: 1.235 });
+  });
+
+  it('should fall back to a full snapshot when the ack is unknown or too old', () => {
+    const history = new SnapshotHistory();
+    expect(history.encode('client', captureFrame(1, [player('a', 0, 0)], [])).baseTick).toBe(-1);
+    history.ack('client', 99);
+    expect(history.encode('client', captureFrame(2, [player('a', 0, 0)], [])).baseTick).toBe(-1);
+
+    history.ack('client', 2);
+    expect(history.encode('other', captureFrame(3, [], [])).baseTick).toBe(-1);
+    for (let tick = 3; tick < 40; tick++) {
+      history.encode('client', captureFrame(tick, [player('a', tick, 0)], []));
+    }
+    expect(history.encode('client', captureFrame(40, [], [])).baseTick).toBe(-1);
+  });
+
+  it('should let the client rebuild every frame from the deltas it acked', () => {
+    const history = new SnapshotHistory();
+    const frames = [
+      captureFrame(1, [player('a', 0, 0), player('b', 50, 50)], [enemy('e1', 200, 200)]),
+      captureFrame(2, [player('a', 5, 0), player('b', 50, 50)], [enemy('e1', 210, 200), enemy('e2', 300, 300)]),
+      captureFrame(3, [player('a', 10, 0)], [enemy('e2', 290, 300)]),
+    ];
+
+    let clientFrame: SnapshotFrame | undefined;
+    for (const frame of frames) {
+      const snapshot = history.encode('client', frame);
+      clientFrame = applySnapshot(clientFrame, snapshot) ?? undefined;
+      if (!clientFrame) throw new Error(`snapshot ${snapshot.tick} did not apply`);
+      history.ack('client', clientFrame.tick);
+
+      expect(clientFrame).toEqual(frame);
+    }
+
+    const last = history.encode('client', captureFrame(4, [player('a', 10, 0)], [enemy('e2', 290, 300)]));
+    expect(last).toMatchObject({ baseTick: 3, players: [], enemies: [], removedPlayers: [], removedEnemies: [] });
+  });
+
+  it('should refuse to apply a delta to the wrong baseline', () => {
+    const frame = captureFrame(5, [player('a', 0, 0)], []);
+    const delta = { tick: 7, baseTick: 6, players: [], enemies: [], removedPlayers: [], removedEnemies: [] };
+
+    expect(applySnapshot(frame, delta)).toBeNull();
+    expect(applySnapshot(undefined, delta)).toBeNull();
+  });
+});
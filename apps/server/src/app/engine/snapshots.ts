@@ -0,0 +1,118 @@
+import {
+  Enemy,
+  EnemySnapshot,
+  Player,
+  PlayerSnapshot,
+  SnapshotFrame,
+  WorldSnapshotPayload,
+  quantizeAngle,
+  quantizePosition,
+} from '@tiny-tanks-time/protocol';
+
+// Frames older than this are forgotten; a client acking slower than that gets a full snapshot.
+const HISTORY_SIZE = 32;
+
+/** `effectsOf` gives the `effectMask` of whatever is under status effects. */
+export function captureFrame(
+  tick: number,
+  players: Iterable<Player>,
+  enemies: Enemy[],
+  effectsOf: (id: string) => number = () => 0,
+): SnapshotFrame {
+  const frame: SnapshotFrame = { tick, players: new Map(), enemies: new Map() };
+
+  for (const player of players) {
+    frame.players.set(player.id, {
+      id: player.id,
+      x: quantizePosition(player.x),
+      y: quantizePosition(player.y),
+      angle: quantizeAngle(player.angle),
+      hp: player.hp,
+      maxHp: player.maxHp,
+      exp: player.exp,
+      level: player.level,
+      maxExp: player.maxExp,
+      effects: effectsOf(player.id)
+    });
+  }
+
+  for (const enemy of enemies) {
+    const snapshot: EnemySnapshot = {
+      id: enemy.id,
+      x: quantizePosition(enemy.x),
+      y: quantizePosition(enemy.y),
+      hp: enemy.hp,
+      effects: effectsOf(enemy.id)
+    };
+    if (enemy.phase) snapshot.phase = enemy.phase;
+    frame.enemies.set(enemy.id, snapshot);
+  }
+
+  return frame;
+}
+
+/**
+ * The recent frames each client was sent plus the last one it acknowledged,
+ * so every client is sent only what changed since the state it is known to
+ * hold. Frames are per client because each one only sees its own surroundings.
+ */
+export class SnapshotHistory {
+  private frames = new Map<string, SnapshotFrame[]>();
+  private acks = new Map<string, number>();
+
+  /** Acks only move forward and must name a frame we still hold. */
+  ack(clientId: string, tick: number) {
+    const current = this.acks.get(clientId) ?? -1;
+    if (Number.isInteger(tick) && tick > current && this.frameAt(clientId, tick)) {
+      this.acks.set(clientId, tick);
+    }
+  }
+
+  forget(clientId: string) {
+    this.frames.delete(clientId);
+    this.acks.delete(clientId);
+  }
+
+  /** Remembers `frame` as sent to the client and diffs it against their acked one. */
+  encode(clientId: string, frame: SnapshotFrame): WorldSnapshotPayload {
+    const ackedTick = this.acks.get(clientId);
+    const base = ackedTick === undefined ? undefined : this.frameAt(clientId, ackedTick);
+
+    const frames = this.frames.get(clientId) ?? [];
+    frames.push(frame);
+    if (frames.length > HISTORY_SIZE) {
+      frames.shift();
+    }
+    this.frames.set(clientId, frames);
+
+    return {
+      tick: frame.tick,
+      baseTick: base ? base.tick : -1,
+      players: changed(frame.players, base?.players),
+      enemies: changed(frame.enemies, base?.enemies),
+      removedPlayers: removed(frame.players, base?.players),
+      removedEnemies: removed(frame.enemies, base?.enemies),
+    };
+  }
+
+  private frameAt(clientId: string, tick: number): SnapshotFrame | undefined {
+    return this.frames.get(clientId)?.find(frame => frame.tick === tick);
+  }
+}
+
+function changed<T extends PlayerSnapshot | EnemySnapshot>(current: Map<string, T>, base?: Map<string, T>): T[] {
+  const result: T[] = [];
+  current.forEach((entity, id) => {
+    const previous = base?.get(id);
+    if (!previous || !sameFields(entity, previous)) result.push(entity);
+  });
+  return result;
+}
+
+function removed<T>(current: Map<string, T>, base?: Map<string, T>): string[] {
+  return base ? Array.from(base.keys()).filter(id => !current.has(id)) : [];
+}
+
+function sameFields<T extends object>(a: T, b: T): boolean {
+  return (Object.keys(a) as (keyof T)[]).every(key => a[key] === b[key]);
+}
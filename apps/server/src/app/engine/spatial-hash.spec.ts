@@ -0,0 +1,149 @@
+import { GameEngine } from './game.engine';
+import { SpatialHash } from './spatial-hash';
+
+interface Point {
+  id: number;
+  x: number;
+  y: number;
+}
+
+// Small deterministic PRNG so the tests scatter entities the same way every run.
+function seeded(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+}
+
+function scatter(count: number, random: () => number): Point[] {
+  return Array.from({ length: count }, (_, id) => ({ id, x: random() * 4000, y: random() * 4000 }));
+}
+
+function bruteNearest(points: Point[], x: number, y: number, maxDistance = Infinity): Point | null {
+  let best: Point | null = null;
+  let bestDist = maxDistance;
+  for (const p of points) {
+    const dist = Math.hypot(p.x - x, p.y - y);
+    if (dist < bestDist) {
+      best = p;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+describe('SpatialHash', () => {
+  it('should only return items filed near the query', () => {
+    const hash = new SpatialHash<string>(100);
+    hash.insert('near', 50, 50);
+    hash.insert('far', 950, 950);
+
+    expect(hash.query(60, 60, 10)).toEqual(['near']);
+    expect(hash.query(500, 500, 10)).toEqual([]);
+  });
+
+  it('should find circles and rectangles from every cell they overlap', () => {
+    const hash = new SpatialHash<string>(100);
+    hash.insert('tank', 95, 50, 20);
+    hash.insertRect('wall', 250, 0, 300, 40);
+
+    expect(hash.query(110, 50, 0)).toEqual(['tank']);
+    expect(hash.query(520, 20, 0)).toEqual(['wall']);
+    expect(hash.query(150, 50, 60).sort()).toEqual(['tank', 'wall']);
+  });
+
+  it('should move items on reinsert and forget removed ones', () => {
+    const hash = new SpatialHash<string>(100);
+    hash.insert('a', 50, 50);
+    hash.insert('a', 850, 850);
+
+    expect(hash.query(50, 50, 10)).toEqual([]);
+    expect(hash.query(850, 850, 10)).toEqual(['a']);
+
+    hash.remove('a');
+    expect(hash.query(850, 850, 10)).toEqual([]);
+    expect(hash.size).toBe(0);
+  });
+
+  it('should find the nearest accepted item within range', () => {
+    const hash = new SpatialHash<string>(100);
+    hash.insert('close', 120, 100);
+    hash.insert('closer-but-rejected', 105, 100);
+    hash.insert('distant', 3000, 3000);
+
+    expect(hash.nearest(100, 100, Infinity, item => item !== 'closer-but-rejected')).toBe('close');
+    expect(hash.nearest(2900, 2900)).toBe('distant');
+    expect(hash.nearest(2000, 2000, 500)).toBeNull();
+  });
+
+  it('should agree with a linear scan for scattered points', () => {
+    const random = seeded(7);
+    const points = scatter(300, random);
+    const hash = new SpatialHash<Point>(200);
+    points.forEach(p => hash.insert(p, p.x, p.y));
+
+    for (let i = 0; i < 200; i++) {
+      const x = random() * 4000;
+      const y = random() * 4000;
+      expect(hash.nearest(x, y)).toBe(bruteNearest(points, x, y));
+      expect(hash.nearest(x, y, 300)).toBe(bruteNearest(points, x, y, 300));
+    }
+  });
+
+  describe('candidates', () => {
+    it('should look at a small fraction of hundreds of entities per query', () => {
+      const random = seeded(42);
+      const points = scatter(800, random);
+      const hash = new SpatialHash<Point>(200);
+      points.forEach(p => hash.insert(p, p.x, p.y, 20));
+
+      let candidates = 0;
+      const queries = 1000;
+      for (let i = 0; i < queries; i++) {
+        candidates += hash.query(random() * 4000, random() * 4000, 25).length;
+      }
+
+      // A bullet-sized query touches at most four cells, roughly 8 of 800 entities.
+      expect(candidates / queries).toBeLessThan(points.length * 0.03);
+    });
+
+    it('should keep what a crowded engine step examines far below a pairwise check', () => {
+      let now = 1000;
+      const engine = new GameEngine({
+        botCount: 100,
+        botSpawnDelayMs: 0,
+        maxEnemies: 300,
+        initialOrbs: 300,
+        random: seeded(1),
+        now: () => now,
+      });
+      const humans = Array.from({ length: 16 }, (_, i) => `human-${i}`);
+      humans.forEach(id => engine.addPlayer(id));
+      for (let i = 0; i < 300; i++) engine.spawnEnemy();
+      engine.step(50);
+
+      const query = jest.spyOn(SpatialHash.prototype, 'query');
+      try {
+        for (let i = 0; i < 20; i++) {
+          now += 50;
+          humans.forEach((id, h) => engine.shoot(id, h + i));
+          engine.step(50);
+        }
+        const entities = engine.state.players.size + engine.state.enemies.length + engine.state.orbs.length + engine.state.bullets.length;
+        const queries = query.mock.calls.length;
+        const candidates = query.mock.results.reduce((sum, result) => sum + (result.value as unknown[]).length, 0);
+
+        expect(engine.state.players.size).toBe(116);
+        expect(engine.state.enemies.length).toBeGreaterThan(250);
+        expect(engine.state.bullets.length).toBeGreaterThan(100);
+        // Every bullet, pickup and wall check asks the hash rather than scanning everything.
+        expect(queries).toBeGreaterThan(20 * 100);
+        expect(candidates / queries).toBeLessThan(entities * 0.01);
+        // Checking every pair each step would come to entities² per step.
+        expect(candidates / 20).toBeLessThan(entities * entities * 0.01);
+      } finally {
+        query.mockRestore();
+      }
+    });
+  });
+});
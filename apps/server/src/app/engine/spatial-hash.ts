@@ -0,0 +1,133 @@
+interface Entry<T> {
+  item: T;
+  x: number;
+  y: number;
+  keys: string[];
+}
+
+/**
+ * Uniform grid over world space. Items are filed under every cell their
+ * bounds touch, so a query only has to look at the cells around a point
+ * instead of at every entity in the arena.
+ */
+export class SpatialHash<T> {
+  private cells = new Map<string, Entry<T>[]>();
+  private entries = new Map<T, Entry<T>>();
+
+  constructor(private readonly cellSize: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear() {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  /** Files a circle (a point when radius is 0); inserting a known item moves it. */
+  insert(item: T, x: number, y: number, radius = 0) {
+    this.insertBounds(item, x, y, x - radius, y - radius, x + radius, y + radius);
+  }
+
+  insertRect(item: T, x: number, y: number, width: number, height: number) {
+    this.insertBounds(item, x + width / 2, y + height / 2, x, y, x + width, y + height);
+  }
+
+  remove(item: T) {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+
+    for (const key of entry.keys) {
+      const cell = this.cells.get(key);
+      if (!cell) continue;
+      cell.splice(cell.indexOf(entry), 1);
+      if (cell.length === 0) this.cells.delete(key);
+    }
+    this.entries.delete(item);
+  }
+
+  /** Every item filed in a cell within `radius` of the point; callers do the exact test. */
+  query(x: number, y: number, radius: number): T[] {
+    const found = new Set<T>();
+    const minX = this.cellOf(x - radius);
+    const maxX = this.cellOf(x + radius);
+    const minY = this.cellOf(y - radius);
+    const maxY = this.cellOf(y + radius);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        this.cells.get(this.key(cx, cy))?.forEach(entry => found.add(entry.item));
+      }
+    }
+    return Array.from(found);
+  }
+
+  /**
+   * Closest accepted item by centre distance, searching outwards ring by ring.
+   * Once the rings cover more cells than there are items a plain scan is cheaper.
+   */
+  nearest(x: number, y: number, maxDistance = Infinity, accept: (item: T) => boolean = () => true): T | null {
+    let best: T | null = null;
+    let bestDistSq = maxDistance * maxDistance;
+    const consider = (entry: Entry<T>) => {
+      const dx = entry.x - x;
+      const dy = entry.y - y;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < bestDistSq && accept(entry.item)) {
+        best = entry.item;
+        bestDistSq = distSq;
+      }
+    };
+
+    const cx = this.cellOf(x);
+    const cy = this.cellOf(y);
+    let visited = 0;
+
+    for (let ring = 0; ; ring++) {
+      // Nothing in this ring or beyond can beat what we have.
+      const ringDistance = Math.max(0, ring - 1) * this.cellSize;
+      if (ringDistance * ringDistance >= bestDistSq) return best;
+
+      if (visited > this.entries.size) {
+        this.entries.forEach(consider);
+        return best;
+      }
+
+      for (let dx = -ring; dx <= ring; dx++) {
+        for (let dy = -ring; dy <= ring; dy++) {
+          if (Math.abs(dx) !== ring && Math.abs(dy) !== ring) continue;
+          this.cells.get(this.key(cx + dx, cy + dy))?.forEach(consider);
+          visited++;
+        }
+      }
+    }
+  }
+
+  private insertBounds(item: T, x: number, y: number, minX: number, minY: number, maxX: number, maxY: number) {
+    this.remove(item);
+
+    const entry: Entry<T> = { item, x, y, keys: [] };
+    for (let cx = this.cellOf(minX); cx <= this.cellOf(maxX); cx++) {
+      for (let cy = this.cellOf(minY); cy <= this.cellOf(maxY); cy++) {
+        const key = this.key(cx, cy);
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(entry);
+        } else {
+          this.cells.set(key, [entry]);
+        }
+        entry.keys.push(key);
+      }
+    }
+    this.entries.set(item, entry);
+  }
+
+  private cellOf(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private key(cx: number, cy: number): string {
+    return `${cx},${cy}`;
+  }
+}
@@ -0,0 +1,208 @@
+import { Player, PlayerStats, Upgrade } from '@tiny-tanks-time/protocol';
+import { UpgradeDefinition } from './game.types';
+import { ALL_UPGRADES, RARITIES, RARITY_WEIGHTS, computeStats, describeUpgrade, findUpgrade, generateUpgrades } from './upgrades';
+
+const BASE_STATS: PlayerStats = {
+  maxHp: 100,
+  fireRate: 300,
+  bulletCount: 1,
+  bulletDamage: 10,
+  bulletSpeed: 360,
+  bulletRadius: 5,
+  moveSpeed: 240,
+  pickupRange: 35,
+  rearGuard: false,
+  bulletLifeTime: 3000,
+  spreadAngle: 0,
+  regenRate: 0,
+  weapon: 'cannon',
+  pierce: 0,
+  bounces: 0,
+  hitEffects: [],
+  ability: 'dash'
+};
+
+function owning(...ids: string[]): Upgrade[] {
+  return ids.map(id => describeUpgrade(findUpgrade(id) as UpgradeDefinition));
+}
+
+function playerWith(upgrades: Upgrade[]): Player {
+  return { upgrades } as Player;
+}
+
+describe('upgrade catalog', () => {
+  it('should use unique ids', () => {
+    const ids = ALL_UPGRADES.map(u => u.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should have entries and a positive weight for every rarity', () => {
+    for (const rarity of RARITIES) {
+      expect(ALL_UPGRADES.some(u => u.rarity === rarity)).toBe(true);
+      expect(RARITY_WEIGHTS[rarity]).toBeGreaterThan(0);
+    }
+  });
+
+  it.each(ALL_UPGRADES.map(u => [u.id, u] as const))('should define %s consistently', (_, upgrade) => {
+    expect(upgrade.name).toBeTruthy();
+    expect(upgrade.description).toBeTruthy();
+    expect(upgrade.tags.length).toBeGreaterThan(0);
+    expect(Number.isInteger(upgrade.maxStacks) && upgrade.maxStacks >= 1).toBe(true);
+    expect(upgrade.modifiers.length + (upgrade.flags?.length ?? 0) + (upgrade.hitEffect || upgrade.ability ? 1 : 0)).toBeGreaterThan(0);
+
+    for (const modifier of upgrade.modifiers) {
+      expect(typeof BASE_STATS[modifier.stat]).toBe('number');
+      const values = [modifier.add, modifier.mul, modifier.atLeast].filter(v => v !== undefined);
+      expect(values.length).toBeGreaterThan(0);
+      expect(values.every(Number.isFinite)).toBe(true);
+      if (modifier.mul !== undefined) expect(modifier.mul).toBeGreaterThan(0);
+    }
+    for (const flag of upgrade.flags ?? []) {
+      expect(typeof BASE_STATS[flag]).toBe('boolean');
+    }
+    for (const id of upgrade.prerequisites ?? []) {
+      expect(findUpgrade(id)).toBeDefined();
+      expect(id).not.toBe(upgrade.id);
+    }
+  });
+
+  it('should build every evolution from at least two other upgrades', () => {
+    const evolutions = ALL_UPGRADES.filter(u => u.evolution);
+
+    expect(evolutions.length).toBeGreaterThan(0);
+    for (const evolution of evolutions) {
+      expect(evolution.prerequisites?.length).toBeGreaterThanOrEqual(2);
+    }
+  });
+
+  it('should not have prerequisite cycles', () => {
+    const visit = (id: string, path: string[]): void => {
+      expect(path).not.toContain(id);
+      findUpgrade(id)?.prerequisites?.forEach(next => visit(next, [...path, id]));
+    };
+    ALL_UPGRADES.forEach(u => visit(u.id, []));
+  });
+
+  it('should only carry plain data', () => {
+    expect(JSON.parse(JSON.stringify(ALL_UPGRADES))).toEqual(ALL_UPGRADES);
+  });
+});
+
+describe('computeStats', () => {
+  it('should return the base stats when nothing is owned', () => {
+    expect(computeStats(BASE_STATS, [])).toEqual(BASE_STATS);
+  });
+
+  it('should add before multiplying regardless of pick order', () => {
+    const stats = computeStats(BASE_STATS, owning('titan_hull_1', 'armor_plating'));
+    expect(stats.maxHp).toBeCloseTo((100 + 25) * 1.2);
+  });
+
+  it('should apply every stack of a stackable upgrade', () => {
+    const stats = computeStats(BASE_STATS, owning('hollow_points', 'hollow_points', 'hollow_points'));
+    expect(stats.bulletDamage).toBe(16);
+  });
+
+  it('should fire three bullets with Triple Shot and two more with Omni Cannon, whatever else is owned', () => {
+    expect(computeStats(BASE_STATS, owning('double_barrel_1', 'triple_shot')).bulletCount).toBe(3);
+    expect(computeStats(BASE_STATS, owning('double_barrel_1', 'triple_shot', 'rear_guard', 'omni_cannon')).bulletCount).toBe(5);
+  });
+
+  it('should apply floors and flags', () => {
+    const stats = computeStats(BASE_STATS, owning('double_barrel_1', 'rear_guard'));
+    expect(stats.bulletCount).toBe(2);
+    expect(stats.spreadAngle).toBe(15);
+    expect(stats.rearGuard).toBe(true);
+  });
+
+  it('should mount the weapon of a weapon upgrade', () => {
+    expect(computeStats(BASE_STATS, owning('laser_cannon', 'hollow_points'))).toMatchObject({ weapon: 'laser', bulletDamage: 18 });
+    expect(computeStats(BASE_STATS, owning('hollow_points')).weapon).toBe('cannon');
+  });
+
+  it('should stack pierce and ricochets', () => {
+    expect(computeStats(BASE_STATS, owning('piercing_rounds', 'piercing_rounds', 'ricochet'))).toMatchObject({ pierce: 2, bounces: 1 });
+  });
+
+  it('should collect the status effects of owned upgrades', () => {
+    expect(computeStats(BASE_STATS, owning('incendiary_rounds', 'toxic_payload')).hitEffects).toEqual(['burn', 'poison']);
+  });
+
+  it('should leave the base stats untouched', () => {
+    computeStats(BASE_STATS, owning('titan_hull_1'));
+    expect(BASE_STATS.maxHp).toBe(100);
+  });
+});
+
+describe('generateUpgrades', () => {
+  it('should stop offering an upgrade once it reaches its max stacks', () => {
+    const roll = () => 0.3;
+    const owned = owning('armor_plating', 'armor_plating', 'armor_plating');
+    const offered = generateUpgrades(ALL_UPGRADES.length, playerWith(owned), roll).map(u => u.id);
+
+    expect(offered).not.toContain('armor_plating');
+    expect(generateUpgrades(ALL_UPGRADES.length, playerWith(owned.slice(1)), roll).map(u => u.id)).toContain('armor_plating');
+  });
+
+  it('should offer upgrades once their prerequisites are owned', () => {
+    const offered = generateUpgrades(ALL_UPGRADES.length, playerWith(owning('titan_hull_1')), () => 0.3).map(u => u.id);
+
+    expect(offered).toContain('titan_hull_2');
+    expect(offered).not.toContain('titan_hull_3');
+  });
+
+  it('should put an unlocked evolution on the first card', () => {
+    const [first] = generateUpgrades(3, playerWith(owning('triple_shot', 'rear_guard')), () => 0);
+
+    expect(first.id).toBe('omni_cannon');
+    expect(describeUpgrade(first).evolution).toBe(true);
+  });
+
+  it('should keep an evolution locked until every part is owned', () => {
+    const offered = generateUpgrades(ALL_UPGRADES.length, playerWith(owning('regen_1', 'regen_2', 'regen_3')), () => 0.3);
+
+    expect(offered.map(u => u.id)).not.toContain('fortress');
+    expect(offered.some(u => u.evolution)).toBe(false);
+  });
+
+  it('should stop offering weapons once one is mounted', () => {
+    const weapons = ALL_UPGRADES.filter(u => u.weapon).map(u => u.id);
+    const offered = generateUpgrades(ALL_UPGRADES.length, playerWith(owning('missile_pod')), () => 0.3).map(u => u.id);
+
+    expect(weapons.length).toBeGreaterThan(1);
+    expect(offered.filter(id => weapons.includes(id))).toEqual([]);
+  });
+
+  it('should swap the ability slot once and stop offering abilities after', () => {
+    const offered = generateUpgrades(ALL_UPGRADES.length, playerWith(owning('bubble_shield')), () => 0.3).map(u => u.id);
+
+    expect(computeStats(BASE_STATS, owning('bubble_shield')).ability).toBe('shield');
+    expect(offered).not.toContain('overcharge');
+  });
+
+  it('should only deal the requested rarities', () => {
+    const offered = generateUpgrades(ALL_UPGRADES.length, playerWith([]), () => 0.3, new Set(), ['Epic', 'Legendary']);
+
+    expect(offered.length).toBeGreaterThan(0);
+    expect(offered.every(u => u.rarity === 'Epic' || u.rarity === 'Legendary')).toBe(true);
+  });
+
+  it('should roll rarities in proportion to their weights', () => {
+    let seed = 11;
+    const random = () => {
+      seed = (seed * 1664525 + 1013904223) % 4294967296;
+      return seed / 4294967296;
+    };
+    const counts: Record<string, number> = {};
+    const rolls = 5000;
+    for (let i = 0; i < rolls; i++) {
+      const [upgrade] = generateUpgrades(1, playerWith([]), random);
+      counts[upgrade.rarity] = (counts[upgrade.rarity] ?? 0) + 1;
+    }
+
+    const total = RARITIES.reduce((sum, rarity) => sum + RARITY_WEIGHTS[rarity], 0);
+    for (const rarity of RARITIES) {
+      expect(counts[rarity] / rolls).toBeCloseTo(RARITY_WEIGHTS[rarity] / total, 1);
+    }
+  });
+});
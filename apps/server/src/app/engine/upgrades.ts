@@ -0,0 +1,184 @@
+import { Player, PlayerStats, Upgrade, UpgradeRarity } from '@tiny-tanks-time/protocol';
+import { UpgradeDefinition } from './game.types';
+
+export const RARITIES: UpgradeRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
+
+/** Relative chance of each rarity being rolled for a level-up card. */
+export const RARITY_WEIGHTS: Record<UpgradeRarity, number> = {
+  Common: 50,
+  Uncommon: 20,
+  Rare: 20,
+  Epic: 8,
+  Legendary: 2,
+};
+
+export const ALL_UPGRADES: UpgradeDefinition[] = [
+  { id: 'titan_hull_1', name: 'Titan Hull I', description: '+20% Max HP', rarity: 'Common', maxStacks: 1, tags: ['defense'], modifiers: [{ stat: 'maxHp', mul: 1.2 }] },
+  { id: 'rapid_fire_1', name: 'Rapid Fire I', description: '+10% Fire Rate', rarity: 'Common', maxStacks: 1, tags: ['offense'], modifiers: [{ stat: 'fireRate', mul: 0.9 }] },
+  { id: 'swiftness_1', name: 'Swiftness I', description: '+10% Move Speed', rarity: 'Common', maxStacks: 1, tags: ['mobility'], modifiers: [{ stat: 'moveSpeed', mul: 1.1 }] },
+  { id: 'high_caliber_1', name: 'High Caliber I', description: '+10% Damage', rarity: 'Common', maxStacks: 1, tags: ['offense'], modifiers: [{ stat: 'bulletDamage', mul: 1.1 }] },
+  { id: 'magnetism_1', name: 'Magnetism I', description: '+20% Pickup Range', rarity: 'Common', maxStacks: 1, tags: ['utility'], modifiers: [{ stat: 'pickupRange', mul: 1.2 }] },
+  { id: 'velocity_1', name: 'Velocity I', description: '+20% Bullet Speed', rarity: 'Common', maxStacks: 1, tags: ['offense'], modifiers: [{ stat: 'bulletSpeed', mul: 1.2 }] },
+  { id: 'regen_1', name: 'Regeneration I', description: '+2 HP/sec', rarity: 'Common', maxStacks: 1, tags: ['defense'], modifiers: [{ stat: 'regenRate', add: 2 }] },
+
+  { id: 'armor_plating', name: 'Armor Plating', description: '+25 Max HP', rarity: 'Uncommon', maxStacks: 3, tags: ['defense'], modifiers: [{ stat: 'maxHp', add: 25 }] },
+  { id: 'hollow_points', name: 'Hollow Points', description: '+2 Damage', rarity: 'Uncommon', maxStacks: 3, tags: ['offense'], modifiers: [{ stat: 'bulletDamage', add: 2 }] },
+  { id: 'reinforced_treads', name: 'Reinforced Treads', description: '+20 Move Speed', rarity: 'Uncommon', maxStacks: 3, tags: ['mobility'], modifiers: [{ stat: 'moveSpeed', add: 20 }] },
+  { id: 'field_repairs', name: 'Field Repairs', description: '+1 HP/sec', rarity: 'Uncommon', maxStacks: 3, tags: ['defense'], modifiers: [{ stat: 'regenRate', add: 1 }] },
+  { id: 'scavenger', name: 'Scavenger', description: '+15 Pickup Range', rarity: 'Uncommon', maxStacks: 2, tags: ['utility'], modifiers: [{ stat: 'pickupRange', add: 15 }] },
+  { id: 'piercing_rounds', name: 'Piercing Rounds', description: 'Bullets pass through +1 target', rarity: 'Uncommon', maxStacks: 3, tags: ['offense'], modifiers: [{ stat: 'pierce', add: 1 }] },
+  {
+    id: 'long_barrel', name: 'Long Barrel', description: '+15% Bullet Speed, +15% Range', rarity: 'Uncommon', maxStacks: 1, tags: ['offense'],
+    modifiers: [{ stat: 'bulletSpeed', mul: 1.15 }, { stat: 'bulletLifeTime', mul: 1.15 }]
+  },
+
+  { id: 'titan_hull_2', name: 'Titan Hull II', description: '+40% Max HP', rarity: 'Rare', prerequisites: ['titan_hull_1'], maxStacks: 1, tags: ['defense'], modifiers: [{ stat: 'maxHp', mul: 1.4 }] },
+  { id: 'rapid_fire_2', name: 'Rapid Fire II', description: '+20% Fire Rate', rarity: 'Rare', prerequisites: ['rapid_fire_1'], maxStacks: 1, tags: ['offense'], modifiers: [{ stat: 'fireRate', mul: 0.8 }] },
+  {
+    id: 'double_barrel_1', name: 'Double Barrel', description: '+1 Bullet', rarity: 'Rare', maxStacks: 1, tags: ['offense'],
+    modifiers: [{ stat: 'bulletCount', add: 1 }, { stat: 'spreadAngle', atLeast: 15 }]
+  },
+  { id: 'velocity_2', name: 'Velocity II', description: '+30% Bullet Speed', rarity: 'Rare', prerequisites: ['velocity_1'], maxStacks: 1, tags: ['offense'], modifiers: [{ stat: 'bulletSpeed', mul: 1.3 }] },
+  { id: 'sniper_1', name: 'Sniper Scope', description: '+50% Range', rarity: 'Rare', maxStacks: 1, tags: ['offense'], modifiers: [{ stat: 'bulletLifeTime', mul: 1.5 }] },
+  { id: 'regen_2', name: 'Regeneration II', description: '+5 HP/sec', rarity: 'Rare', prerequisites: ['regen_1'], maxStacks: 1, tags: ['defense'], modifiers: [{ stat: 'regenRate', add: 5 }] },
+  { id: 'heavy_shells', name: 'Heavy Shells', description: '+20% Damage', rarity: 'Rare', maxStacks: 1, tags: ['offense'], modifiers: [{ stat: 'bulletDamage', mul: 1.2 }] },
+  { id: 'ricochet', name: 'Ricochet', description: 'Bullets bounce off +1 wall', rarity: 'Rare', maxStacks: 2, tags: ['offense'], modifiers: [{ stat: 'bounces', add: 1 }] },
+  { id: 'incendiary_rounds', name: 'Incendiary Rounds', description: 'Hits set targets on fire', rarity: 'Rare', maxStacks: 1, tags: ['offense'], modifiers: [], hitEffect: 'burn' },
+  { id: 'cryo_shells', name: 'Cryo Shells', description: 'Hits slow targets by 40%', rarity: 'Rare', maxStacks: 1, tags: ['offense', 'utility'], modifiers: [], hitEffect: 'slow' },
+  { id: 'bubble_shield', name: 'Bubble Shield', description: 'Ability: 2.5s of invulnerability (12s cooldown)', rarity: 'Rare', maxStacks: 1, tags: ['defense'], modifiers: [], ability: 'shield' },
+  { id: 'turbo_engine', name: 'Turbo Engine', description: '+20% Move Speed', rarity: 'Rare', maxStacks: 1, tags: ['mobility'], modifiers: [{ stat: 'moveSpeed', mul: 1.2 }] },
+
+  {
+    id: 'missile_pod', name: 'Missile Pod', description: 'Homing missiles, +25% Damage, -20% Fire Rate', rarity: 'Rare', maxStacks: 1, tags: ['offense'],
+    weapon: 'missile', modifiers: [{ stat: 'bulletDamage', mul: 1.25 }, { stat: 'fireRate', mul: 1.25 }]
+  },
+  {
+    id: 'mine_layer', name: 'Mine Layer', description: 'Lobbed mines that blast everything nearby, +150% Damage, -60% Fire Rate', rarity: 'Rare', maxStacks: 1, tags: ['offense', 'defense'],
+    weapon: 'mine', modifiers: [{ stat: 'bulletDamage', mul: 2.5 }, { stat: 'fireRate', mul: 2.5 }]
+  },
+
+  { id: 'titan_hull_3', name: 'Titan Hull III', description: '+60% Max HP', rarity: 'Epic', prerequisites: ['titan_hull_2'], maxStacks: 1, tags: ['defense'], modifiers: [{ stat: 'maxHp', mul: 1.6 }] },
+  { id: 'rear_guard', name: 'Rear Guard', description: 'Back Cannon', rarity: 'Epic', maxStacks: 1, tags: ['offense', 'defense'], modifiers: [], flags: ['rearGuard'] },
+  {
+    id: 'flamethrower', name: 'Flamethrower', description: 'Short-range flame cone, +150% Fire Rate, -60% Damage', rarity: 'Epic', maxStacks: 1, tags: ['offense'],
+    weapon: 'flamethrower', modifiers: [{ stat: 'fireRate', mul: 0.4 }, { stat: 'bulletDamage', mul: 0.4 }]
+  },
+  {
+    id: 'laser_cannon', name: 'Laser Cannon', description: 'Instant hitscan beam, +50% Damage, -25% Fire Rate', rarity: 'Epic', maxStacks: 1, tags: ['offense'],
+    weapon: 'laser', modifiers: [{ stat: 'bulletDamage', mul: 1.5 }, { stat: 'fireRate', mul: 1.33 }]
+  },
+  { id: 'toxic_payload', name: 'Toxic Payload', description: 'Hits poison targets, stacking up to 5 times', rarity: 'Epic', maxStacks: 1, tags: ['offense'], modifiers: [], hitEffect: 'poison' },
+  { id: 'concussion_shells', name: 'Concussion Shells', description: 'Hits have a 15% chance to stun', rarity: 'Epic', maxStacks: 1, tags: ['offense', 'utility'], modifiers: [], hitEffect: 'stun' },
+  { id: 'overcharge', name: 'Overcharge', description: 'Ability: double fire rate for 4s (15s cooldown)', rarity: 'Epic', maxStacks: 1, tags: ['offense'], modifiers: [], ability: 'overcharge' },
+  { id: 'regen_3', name: 'Regeneration III', description: '+10 HP/sec', rarity: 'Epic', prerequisites: ['regen_2'], maxStacks: 1, tags: ['defense'], modifiers: [{ stat: 'regenRate', add: 10 }] },
+
+  { id: 'titan_hull_4', name: 'Titan Hull IV', description: '+100% Max HP', rarity: 'Legendary', prerequisites: ['titan_hull_3'], maxStacks: 1, tags: ['defense'], modifiers: [{ stat: 'maxHp', mul: 2.0 }] },
+  {
+    id: 'triple_shot', name: 'Triple Shot', description: 'Fire 3 bullets', rarity: 'Legendary', maxStacks: 1, tags: ['offense'],
+    modifiers: [{ stat: 'bulletCount', atLeast: 3 }, { stat: 'spreadAngle', atLeast: 30 }]
+  },
+
+  // Evolutions: unlocked by owning every upgrade they combine.
+  {
+    id: 'omni_cannon', name: 'Omni Cannon', description: '+2 Bullets, 90° spread, +15% Fire Rate', rarity: 'Legendary', evolution: true,
+    prerequisites: ['triple_shot', 'rear_guard'], maxStacks: 1, tags: ['offense'],
+    // Two more than Triple Shot's three, which a plain `add` would sink below its floor.
+    modifiers: [{ stat: 'bulletCount', atLeast: 5 }, { stat: 'spreadAngle', atLeast: 90 }, { stat: 'fireRate', mul: 0.85 }]
+  },
+  {
+    id: 'fortress', name: 'Fortress', description: '+50% Max HP, +10 HP/sec, -10% Move Speed', rarity: 'Legendary', evolution: true,
+    prerequisites: ['regen_3', 'titan_hull_3'], maxStacks: 1, tags: ['defense'],
+    modifiers: [{ stat: 'maxHp', mul: 1.5 }, { stat: 'regenRate', add: 10 }, { stat: 'moveSpeed', mul: 0.9 }]
+  },
+  {
+    id: 'bullet_storm', name: 'Bullet Storm', description: '+25% Fire Rate, +20% Bullet Speed', rarity: 'Legendary', evolution: true,
+    prerequisites: ['rapid_fire_2', 'velocity_2'], maxStacks: 1, tags: ['offense'],
+    modifiers: [{ stat: 'fireRate', mul: 0.75 }, { stat: 'bulletSpeed', mul: 1.2 }]
+  },
+];
+
+const UPGRADES_BY_ID = new Map(ALL_UPGRADES.map(u => [u.id, u]));
+
+export function findUpgrade(id: string): UpgradeDefinition | undefined {
+  return UPGRADES_BY_ID.get(id);
+}
+
+/** The part of a definition that goes over the wire. */
+export function describeUpgrade(upgrade: UpgradeDefinition): Upgrade {
+  const dto: Upgrade = { id: upgrade.id, name: upgrade.name, description: upgrade.description, rarity: upgrade.rarity };
+  if (upgrade.evolution) dto.evolution = true;
+  return dto;
+}
+
+/** Stats a player ends up with: `base` with every owned upgrade's modifiers applied, in pick order. */
+export function computeStats(base: PlayerStats, owned: Upgrade[]): PlayerStats {
+  const stats = { ...base };
+  const definitions = owned.map(u => UPGRADES_BY_ID.get(u.id)).filter((u): u is UpgradeDefinition => !!u);
+  const modifiers = definitions.flatMap(u => u.modifiers);
+
+  for (const m of modifiers) if (m.add !== undefined) stats[m.stat] += m.add;
+  for (const m of modifiers) if (m.mul !== undefined) stats[m.stat] *= m.mul;
+  for (const m of modifiers) if (m.atLeast !== undefined) stats[m.stat] = Math.max(stats[m.stat], m.atLeast);
+  for (const flag of definitions.flatMap(u => u.flags ?? [])) stats[flag] = true;
+  for (const u of definitions) if (u.weapon) stats.weapon = u.weapon;
+  for (const u of definitions) if (u.ability) stats.ability = u.ability;
+  stats.hitEffects = [...new Set([...base.hitEffects, ...definitions.flatMap(u => (u.hitEffect ? [u.hitEffect] : []))])];
+
+  return stats;
+}
+
+export function isUpgradeAvailable(upgrade: UpgradeDefinition, owned: Upgrade[]): boolean {
+  const stacks = owned.filter(u => u.id === upgrade.id).length;
+  if (stacks >= upgrade.maxStacks) return false;
+  if (upgrade.weapon && owned.some(u => UPGRADES_BY_ID.get(u.id)?.weapon)) return false;
+  if (upgrade.ability && owned.some(u => UPGRADES_BY_ID.get(u.id)?.ability)) return false;
+  return (upgrade.prerequisites ?? []).every(id => owned.some(u => u.id === id));
+}
+
+/**
+ * Rolls `count` distinct cards: a rarity first, weighted among the rarities
+ * that still have something to offer, then an upgrade of that rarity. An
+ * unlocked evolution always takes the first card so a bad roll cannot hide it.
+ * `excluded` ids, such as banished upgrades, are never offered, and only
+ * upgrades of the given `rarities` are dealt.
+ */
+export function generateUpgrades(
+  count: number,
+  player: Player,
+  random: () => number = Math.random,
+  excluded: ReadonlySet<string> = new Set(),
+  rarities: readonly UpgradeRarity[] = RARITIES,
+): UpgradeDefinition[] {
+  const available = ALL_UPGRADES.filter(u =>
+    rarities.includes(u.rarity) && !excluded.has(u.id) && isUpgradeAvailable(u, player.upgrades));
+  const evolutions = available.filter(u => u.evolution);
+
+  const options: UpgradeDefinition[] = [];
+  if (count > 0 && evolutions.length > 0) {
+    const evolution = evolutions[Math.floor(random() * evolutions.length)];
+    options.push(evolution);
+    available.splice(available.indexOf(evolution), 1);
+  }
+
+  while (options.length < count) {
+    if (available.length === 0) break;
+    const stocked = RARITIES.filter(rarity => available.some(u => u.rarity === rarity));
+    const total = stocked.reduce((sum, rarity) => sum + RARITY_WEIGHTS[rarity], 0);
+
+    let roll = random() * total;
+    let rarity = stocked[stocked.length - 1];
+    for (const candidate of stocked) {
+      roll -= RARITY_WEIGHTS[candidate];
+      if (roll < 0) {
+        rarity = candidate;
+        break;
+      }
+    }
+
+    const pool = available.filter(u => u.rarity === rarity);
+    const selected = pool[Math.floor(random() * pool.length)];
+    options.push(selected);
+    available.splice(available.indexOf(selected), 1);
+  }
+  return options;
+}
@@ -0,0 +1,83 @@
+import { ENEMY_TYPES, rollEnemyType } from './enemies';
+import { WaveDirector, newEnemyTypes } from './waves';
+
+const SOLO = { players: 1, averageLevel: 1 };
+
+describe('WaveDirector', () => {
+  it('should start a new wave every wave duration', () => {
+    const director = new WaveDirector({ waveDurationMs: 1000 });
+
+    expect(director.tick(50, SOLO)).toMatchObject({ started: true, plan: { wave: 1 } });
+    expect(director.tick(900, SOLO)).toMatchObject({ started: false, plan: { wave: 1 } });
+    expect(director.tick(50, SOLO)).toMatchObject({ started: true, plan: { wave: 2 } });
+    expect(director.tick(50, SOLO).started).toBe(false);
+  });
+
+  it('should hand out spawns at the planned interval', () => {
+    const director = new WaveDirector({ baseSpawnIntervalMs: 200, minSpawnIntervalMs: 100 });
+
+    const spawns = [1, 2, 3, 4, 5, 6, 7, 8].map(() => director.tick(50, SOLO).spawns);
+    expect(spawns).toEqual([0, 0, 0, 1, 0, 0, 0, 1]);
+    expect(director.tick(450, SOLO).spawns).toBe(2);
+  });
+
+  it('should start a single level-1 player on the base numbers', () => {
+    const plan = new WaveDirector({ baseSpawnIntervalMs: 2000 }).plan(SOLO);
+
+    expect(plan).toEqual({
+      wave: 1,
+      spawnIntervalMs: 2000,
+      maxEnemies: 20,
+      hpMultiplier: 1,
+      damageMultiplier: 1,
+      expMultiplier: 1,
+    });
+  });
+
+  it('should spawn faster and allow more enemies with every wave and every player', () => {
+    const director = new WaveDirector({ waveDurationMs: 1000 });
+    const early = director.plan(SOLO);
+    const crowded = director.plan({ players: 8, averageLevel: 1 });
+    director.tick(5000, SOLO);
+    const late = director.plan(SOLO);
+
+    expect(crowded.spawnIntervalMs).toBeLessThan(early.spawnIntervalMs);
+    expect(crowded.maxEnemies).toBeGreaterThan(early.maxEnemies);
+    expect(late.spawnIntervalMs).toBeLessThan(early.spawnIntervalMs);
+    expect(late.maxEnemies).toBeGreaterThan(early.maxEnemies);
+    expect(crowded.hpMultiplier).toBe(1);
+  });
+
+  it('should never spawn faster than the minimum interval', () => {
+    const director = new WaveDirector({ waveDurationMs: 1000, minSpawnIntervalMs: 300 });
+    director.tick(100000, SOLO);
+
+    expect(director.plan({ players: 8, averageLevel: 1 }).spawnIntervalMs).toBe(300);
+  });
+
+  it('should toughen enemies as the average level rises and pay out accordingly', () => {
+    const director = new WaveDirector();
+    const plan = director.plan({ players: 4, averageLevel: 11 });
+
+    expect(plan.hpMultiplier).toBeCloseTo(1.8);
+    expect(plan.damageMultiplier).toBeCloseTo(1.4);
+    expect(plan.expMultiplier).toBe(plan.hpMultiplier);
+  });
+});
+
+describe('enemy types by wave', () => {
+  it('should only roll types whose first wave has come', () => {
+    const rolls = Array.from({ length: 20 }, (_, i) => rollEnemyType(() => i / 20, 1));
+
+    expect(new Set(rolls)).toEqual(new Set(['grunt']));
+    expect(rollEnemyType(() => 0.99, 5)).toBe('brute');
+  });
+
+  it('should announce each spawnable type in exactly one wave', () => {
+    const announced = [1, 2, 3, 4, 5, 6].flatMap(newEnemyTypes);
+    const spawnable = Object.entries(ENEMY_TYPES).filter(([, d]) => d.spawnWeight > 0).map(([type]) => type);
+
+    expect(announced.sort()).toEqual(spawnable.sort());
+    expect(newEnemyTypes(3)).toEqual(['charger', 'splitter']);
+  });
+});
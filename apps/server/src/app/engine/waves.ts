@@ -0,0 +1,111 @@
+import { EnemyType } from '@tiny-tanks-time/protocol';
+import { ENEMY_TYPES, ENEMY_TYPE_IDS } from './enemies';
+
+export interface WaveSettings {
+  waveDurationMs: number;
+  /** Time between spawns in the first wave with a single player. */
+  baseSpawnIntervalMs: number;
+  minSpawnIntervalMs: number;
+}
+
+const DEFAULT_SETTINGS: WaveSettings = {
+  waveDurationMs: 60000,
+  baseSpawnIntervalMs: 2000,
+  minSpawnIntervalMs: 250,
+};
+
+// Each wave spawns this much faster, and each extra player this much faster again.
+const SPAWN_RATE_PER_WAVE = 0.12;
+const SPAWN_RATE_PER_PLAYER = 0.35;
+
+const BASE_MAX_ENEMIES = 20;
+const MAX_ENEMIES_PER_WAVE = 8;
+const MAX_ENEMIES_PER_PLAYER = 10;
+
+// Enemy toughness follows both the clock and how strong the players have become.
+const HP_PER_WAVE = 0.15;
+const HP_PER_LEVEL = 0.08;
+const DAMAGE_PER_WAVE = 0.08;
+const DAMAGE_PER_LEVEL = 0.04;
+
+/** Who the director is tuning the arena for. */
+export interface Crowd {
+  players: number;
+  averageLevel: number;
+}
+
+export interface WavePlan {
+  wave: number;
+  spawnIntervalMs: number;
+  maxEnemies: number;
+  hpMultiplier: number;
+  damageMultiplier: number;
+  expMultiplier: number; // tougher enemies pay out in proportion
+}
+
+export interface WaveTick {
+  plan: WavePlan;
+  /** Set on the step a new wave begins. */
+  started: boolean;
+  /** Enemies due this step, before the caller applies any cap. */
+  spawns: number;
+}
+
+/** Types that first show up in `wave`. */
+export function newEnemyTypes(wave: number): EnemyType[] {
+  return ENEMY_TYPE_IDS.filter(type => ENEMY_TYPES[type].spawnWeight > 0 && (ENEMY_TYPES[type].firstWave ?? 1) === wave);
+}
+
+/**
+ * Paces the enemy spawns of a match. Waves follow the match clock; within a
+ * wave the spawn rate, the enemy cap and how tough each enemy is are worked
+ * out again every step from the wave, the number of players and their
+ * average level.
+ */
+export class WaveDirector {
+  private readonly settings: WaveSettings;
+  private elapsedMs = 0;
+  private spawnTimer = 0;
+  private wave = 0;
+
+  constructor(settings: Partial<WaveSettings> = {}) {
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+  }
+
+  get current(): number {
+    return Math.max(1, this.wave);
+  }
+
+  tick(dtMs: number, crowd: Crowd): WaveTick {
+    this.elapsedMs += dtMs;
+    const wave = 1 + Math.floor(this.elapsedMs / this.settings.waveDurationMs);
+    const started = wave > this.wave;
+    this.wave = wave;
+
+    const plan = this.plan(crowd);
+    this.spawnTimer += dtMs;
+    let spawns = 0;
+    while (this.spawnTimer >= plan.spawnIntervalMs) {
+      this.spawnTimer -= plan.spawnIntervalMs;
+      spawns++;
+    }
+    return { plan, started, spawns };
+  }
+
+  plan(crowd: Crowd): WavePlan {
+    const wave = this.current;
+    const players = Math.max(1, crowd.players);
+    const levels = Math.max(0, crowd.averageLevel - 1);
+
+    const rate = (1 + SPAWN_RATE_PER_WAVE * (wave - 1)) * (1 + SPAWN_RATE_PER_PLAYER * (players - 1));
+    const hpMultiplier = 1 + HP_PER_WAVE * (wave - 1) + HP_PER_LEVEL * levels;
+    return {
+      wave,
+      spawnIntervalMs: Math.max(this.settings.minSpawnIntervalMs, this.settings.baseSpawnIntervalMs / rate),
+      maxEnemies: BASE_MAX_ENEMIES + MAX_ENEMIES_PER_WAVE * (wave - 1) + MAX_ENEMIES_PER_PLAYER * (players - 1),
+      hpMultiplier,
+      damageMultiplier: 1 + DAMAGE_PER_WAVE * (wave - 1) + DAMAGE_PER_LEVEL * levels,
+      expMultiplier: hpMultiplier,
+    };
+  }
+}
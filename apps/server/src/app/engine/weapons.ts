@@ -0,0 +1,41 @@
+import { ProjectileKind, WeaponKind } from '@tiny-tanks-time/protocol';
+
+/**
+ * How a weapon's rounds behave. Damage, fire rate, bullet speed and range all
+ * still come from the shooter's stats; the upgrade that mounts a weapon
+ * adjusts those with ordinary modifiers.
+ */
+export interface WeaponDefinition {
+  projectile: ProjectileKind;
+  speedMultiplier: number; // on the shooter's bullet speed
+  missile?: {
+    turnRate: number; // rad/sec
+    seekRange: number; // locks on to the nearest target this close to the muzzle
+  };
+  mine?: {
+    flightMs: number;
+    triggerRadius: number; // goes off when anything comes this close
+    blastRadius: number;
+    lifeTimeMs: number;
+  };
+  flame?: {
+    range: number;
+    arc: number; // radians
+    visibleMs: number;
+  };
+  laser?: {
+    range: number;
+    visibleMs: number;
+  };
+}
+
+export const WEAPONS: Record<WeaponKind, WeaponDefinition> = {
+  cannon: { projectile: 'shell', speedMultiplier: 1 },
+  missile: { projectile: 'missile', speedMultiplier: 0.75, missile: { turnRate: 3, seekRange: 600 } },
+  mine: {
+    projectile: 'mine', speedMultiplier: 0.6,
+    mine: { flightMs: 500, triggerRadius: 50, blastRadius: 120, lifeTimeMs: 12000 }
+  },
+  flamethrower: { projectile: 'flame', speedMultiplier: 0, flame: { range: 180, arc: 0.8, visibleMs: 200 } },
+  laser: { projectile: 'laser', speedMultiplier: 0, laser: { range: 900, visibleMs: 150 } },
+};
@@ -0,0 +1,51 @@
+import { join } from 'path';
+import { ChassisKind } from '@tiny-tanks-time/protocol';
+import { GameGateway } from './game.gateway';
+import { MapRegistry } from './maps/map.registry';
+import { RoomManager } from './rooms/room.manager';
+
+type GameSocket = Parameters<GameGateway['handleJoinRoom']>[1];
+
+describe('GameGateway', () => {
+  let rooms: RoomManager;
+  let gateway: GameGateway;
+
+  beforeEach(() => {
+    const maps = new MapRegistry();
+    maps.loadDirectory(join(__dirname, '../assets/maps'));
+    rooms = new RoomManager(maps);
+    gateway = new GameGateway(rooms, maps);
+  });
+
+  function fakeClient(id: string) {
+    return { id, emit: jest.fn(), join: jest.fn() };
+  }
+
+  it('should refuse an unknown chassis without opening a room', () => {
+    const client = fakeClient('a');
+    const chassis = 'hovercraft' as ChassisKind;
+
+    gateway.handleJoinRoom({ chassis }, client as unknown as GameSocket);
+    gateway.handleCreateRoom({ chassis }, client as unknown as GameSocket);
+
+    expect(rooms.size).toBe(0);
+    expect(client.emit).toHaveBeenCalledWith('roomError', { message: 'Chassis hovercraft does not exist' });
+    expect(client.join).not.toHaveBeenCalled();
+  });
+
+  it('should treat a room code that is not a string as no code at all', () => {
+    const client = fakeClient('a');
+    const code = 12345 as unknown as string;
+
+    expect(() => gateway.handleJoinRoom({ code }, client as unknown as GameSocket)).not.toThrow();
+    expect(rooms.roomOf('a')?.isPrivate).toBe(false);
+  });
+
+  it('should put a player on the chassis they asked for', () => {
+    const client = fakeClient('a');
+
+    gateway.handleJoinRoom({ chassis: 'scout' }, client as unknown as GameSocket);
+
+    expect(rooms.roomOf('a')?.engine.state.players.get('a')?.chassis).toBe('scout');
+  });
+});
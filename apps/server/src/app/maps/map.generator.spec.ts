@@ -0,0 +1,90 @@
+import { GameMap, Obstacle } from '@tiny-tanks-time/protocol';
+import { GameEngine } from '../engine/game.engine';
+import { generateArena } from './map.generator';
+import { parseGameMap } from './map.registry';
+
+const TANK_RADIUS = 20;
+const STEP = 40;
+
+function gap(a: Obstacle, b: Obstacle): number {
+  const dx = Math.max(0, b.x - (a.x + a.width), a.x - (b.x + b.width));
+  const dy = Math.max(0, b.y - (a.y + a.height), a.y - (b.y + b.height));
+  return Math.hypot(dx, dy);
+}
+
+function overlaps(a: Obstacle, b: Obstacle): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/** Walks a tank-sized probe over the map on a fine grid and counts the spots it cannot reach. */
+function unreachableSpots(map: GameMap): number {
+  const engine = new GameEngine({ map, botCount: 0, maxEnemies: 0, initialOrbs: 0 });
+  const cols = Math.floor(map.width / STEP);
+  const rows = Math.floor(map.height / STEP);
+  const walkable = (cx: number, cy: number) =>
+    !engine.checkCollision(cx * STEP + STEP / 2, cy * STEP + STEP / 2, TANK_RADIUS);
+
+  const start = map.spawnPoints[0];
+  const queue = [[Math.floor(start.x / STEP), Math.floor(start.y / STEP)]];
+  const seen = new Set([queue[0].join()]);
+  while (queue.length > 0) {
+    const [cx, cy] = queue.pop() as number[];
+    for (const [nx, ny] of [[cx + 1, cy], [cx - 1, cy], [cx, cy + 1], [cx, cy - 1]]) {
+      const key = `${nx},${ny}`;
+      if (nx < 0 || ny < 0 || nx >= cols || ny >= rows || seen.has(key) || !walkable(nx, ny)) continue;
+      seen.add(key);
+      queue.push([nx, ny]);
+    }
+  }
+
+  let missed = 0;
+  for (let cx = 0; cx < cols; cx++) {
+    for (let cy = 0; cy < rows; cy++) {
+      if (walkable(cx, cy) && !seen.has(`${cx},${cy}`)) missed++;
+    }
+  }
+  return missed;
+}
+
+describe('generateArena', () => {
+  it('should build the same map from the same seed', () => {
+    expect(generateArena(1234)).toEqual(generateArena(1234));
+    expect(generateArena(1234).obstacles).not.toEqual(generateArena(1235).obstacles);
+  });
+
+  it.each([1, 42, 2024])('should produce a valid, well-filled map for seed %i', (seed) => {
+    const map = generateArena(seed);
+
+    expect(() => parseGameMap(map, map.id)).not.toThrow();
+    expect(map.id).toBe(`random-${seed}`);
+    expect(map.spawnPoints).toHaveLength(8);
+    expect(map.obstacles.length).toBeGreaterThan(20);
+  });
+
+  it.each([1, 42, 2024])('should leave corridors at least the minimum width for seed %i', (seed) => {
+    const { obstacles } = generateArena(seed, { corridorWidth: 150 });
+
+    for (let i = 0; i < obstacles.length; i++) {
+      for (let j = i + 1; j < obstacles.length; j++) {
+        const distance = gap(obstacles[i], obstacles[j]);
+        expect(distance === 0 || distance >= 150).toBe(true);
+      }
+    }
+  });
+
+  it.each([1, 42, 2024])('should keep spawn points and orb zones clear for seed %i', (seed) => {
+    const map = generateArena(seed);
+
+    for (const point of map.spawnPoints) {
+      const spot = { ...point, width: 0, height: 0 };
+      expect(map.obstacles.every(obs => gap(obs, spot) >= 200)).toBe(true);
+    }
+    for (const zone of map.orbZones) {
+      expect(map.obstacles.some(obs => overlaps(obs, zone))).toBe(false);
+    }
+  });
+
+  it.each([1, 42, 2024])('should let a tank reach every open spot for seed %i', (seed) => {
+    expect(unreachableSpots(generateArena(seed))).toBe(0);
+  });
+});
@@ -0,0 +1,189 @@
+import { GameMap, MAP_FORMAT_VERSION, MapPoint, MapZone, Obstacle } from '@tiny-tanks-time/protocol';
+
+export interface ArenaOptions {
+  width: number;
+  height: number;
+  /** Narrowest gap left between obstacles; also the size of the layout grid. */
+  corridorWidth: number;
+  /** Share of the playable grid to fill with obstacles. */
+  density: number;
+  spawnPoints: number;
+  /** Radius around each spawn point kept free of obstacles. */
+  spawnClearance: number;
+  orbZones: number;
+  orbZoneSize: number;
+  /** Placement tries before settling for a sparser arena. */
+  maxAttempts: number;
+}
+
+const DEFAULT_OPTIONS: ArenaOptions = {
+  width: 4000,
+  height: 4000,
+  corridorWidth: 120,
+  density: 0.2,
+  spawnPoints: 8,
+  spawnClearance: 200,
+  orbZones: 5,
+  orbZoneSize: 360,
+  maxAttempts: 600,
+};
+
+const FREE = 0;
+const BLOCKED = 1;
+const RESERVED = 2;
+
+/** Small deterministic PRNG (mulberry32); the same seed always yields the same sequence. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lays out an arena on a grid of corridor-sized cells. Obstacles are whole
+ * cells, so any gap between two of them is at least one corridor wide, the
+ * outer ring of cells stays open, and a piece that would cut the open cells
+ * in two is thrown away, so every open spot can reach every other one.
+ */
+export function generateArena(seed: number, overrides: Partial<ArenaOptions> = {}): GameMap {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const random = seededRandom(seed);
+  const cell = options.corridorWidth;
+  const cols = Math.floor(options.width / cell);
+  const rows = Math.floor(options.height / cell);
+  const grid = new Uint8Array(cols * rows);
+  const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+  // Spawn points sit on a ring around the centre, evenly spaced from a random start.
+  const spawnPoints: MapPoint[] = [];
+  const ringRadius = Math.min(options.width, options.height) * 0.35;
+  const startAngle = random() * Math.PI * 2;
+  for (let i = 0; i < options.spawnPoints; i++) {
+    const angle = startAngle + (i / options.spawnPoints) * Math.PI * 2;
+    const point = {
+      x: Math.round(options.width / 2 + Math.cos(angle) * ringRadius),
+      y: Math.round(options.height / 2 + Math.sin(angle) * ringRadius),
+    };
+    spawnPoints.push(point);
+    reserveAround(grid, cols, rows, cell, point, options.spawnClearance);
+  }
+
+  const orbZones: MapZone[] = [];
+  const zoneCells = Math.max(1, Math.ceil(options.orbZoneSize / cell));
+  for (let i = 0; i < options.orbZones; i++) {
+    const cx = randomInt(1, cols - 1 - zoneCells);
+    const cy = randomInt(1, rows - 1 - zoneCells);
+    fill(grid, cols, cx, cy, zoneCells, zoneCells, RESERVED);
+    orbZones.push({ x: cx * cell, y: cy * cell, width: zoneCells * cell, height: zoneCells * cell });
+  }
+
+  const obstacles: Obstacle[] = [];
+  const target = Math.floor((cols - 2) * (rows - 2) * options.density);
+  let blocked = 0;
+  for (let attempt = 0; attempt < options.maxAttempts && blocked < target; attempt++) {
+    // Mostly walls of varying length, with the odd chunky block.
+    let w: number;
+    let h: number;
+    if (random() < 0.7) {
+      const length = randomInt(2, 6);
+      [w, h] = random() < 0.5 ? [length, 1] : [1, length];
+    } else {
+      w = randomInt(2, 3);
+      h = randomInt(2, 3);
+    }
+    const cx = randomInt(1, cols - 1 - w);
+    const cy = randomInt(1, rows - 1 - h);
+    if (cx < 1 || cy < 1 || !isFree(grid, cols, cx, cy, w, h)) continue;
+
+    fill(grid, cols, cx, cy, w, h, BLOCKED);
+    if (!isConnected(grid, cols, rows)) {
+      fill(grid, cols, cx, cy, w, h, FREE);
+      continue;
+    }
+    obstacles.push({ x: cx * cell, y: cy * cell, width: w * cell, height: h * cell });
+    blocked += w * h;
+  }
+
+  return {
+    version: MAP_FORMAT_VERSION,
+    id: `random-${seed}`,
+    name: `Random Arena #${seed}`,
+    width: options.width,
+    height: options.height,
+    obstacles,
+    spawnPoints,
+    orbZones,
+    enemyZones: [],
+  };
+}
+
+function fill(grid: Uint8Array, cols: number, cx: number, cy: number, w: number, h: number, value: number) {
+  for (let y = cy; y < cy + h; y++) {
+    for (let x = cx; x < cx + w; x++) {
+      grid[y * cols + x] = value;
+    }
+  }
+}
+
+function isFree(grid: Uint8Array, cols: number, cx: number, cy: number, w: number, h: number): boolean {
+  for (let y = cy; y < cy + h; y++) {
+    for (let x = cx; x < cx + w; x++) {
+      if (grid[y * cols + x] !== FREE) return false;
+    }
+  }
+  return true;
+}
+
+/** Marks every cell that overlaps the circle around `point` as off limits. */
+function reserveAround(grid: Uint8Array, cols: number, rows: number, cell: number, point: MapPoint, radius: number) {
+  for (let cy = 0; cy < rows; cy++) {
+    for (let cx = 0; cx < cols; cx++) {
+      const nearestX = Math.max(cx * cell, Math.min(point.x, (cx + 1) * cell));
+      const nearestY = Math.max(cy * cell, Math.min(point.y, (cy + 1) * cell));
+      if (Math.hypot(nearestX - point.x, nearestY - point.y) < radius) {
+        grid[cy * cols + cx] = RESERVED;
+      }
+    }
+  }
+}
+
+/** Flood fills the open cells through their edges and checks it reached all of them. */
+function isConnected(grid: Uint8Array, cols: number, rows: number): boolean {
+  let open = 0;
+  let start = -1;
+  for (let i = 0; i < grid.length; i++) {
+    if (grid[i] === BLOCKED) continue;
+    open++;
+    if (start < 0) start = i;
+  }
+  if (start < 0) return true;
+
+  const seen = new Uint8Array(grid.length);
+  const stack = [start];
+  seen[start] = 1;
+  let reached = 0;
+  while (stack.length > 0) {
+    const i = stack.pop() as number;
+    reached++;
+    const x = i % cols;
+    const y = Math.floor(i / cols);
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < cols - 1 ? i + 1 : -1,
+      y > 0 ? i - cols : -1,
+      y < rows - 1 ? i + cols : -1,
+    ];
+    for (const n of neighbours) {
+      if (n >= 0 && !seen[n] && grid[n] !== BLOCKED) {
+        seen[n] = 1;
+        stack.push(n);
+      }
+    }
+  }
+  return reached === open;
+}
@@ -0,0 +1,64 @@
+import { join } from 'path';
+import { MAP_FORMAT_VERSION } from '@tiny-tanks-time/protocol';
+import { MapRegistry, parseGameMap } from './map.registry';
+
+function mapFile(overrides: Record<string, unknown> = {}) {
+  return {
+    version: MAP_FORMAT_VERSION,
+    id: 'test',
+    name: 'Test',
+    width: 1000,
+    height: 1000,
+    obstacles: [{ x: 400, y: 400, width: 100, height: 100 }],
+    spawnPoints: [{ x: 100, y: 100 }],
+    orbZones: [],
+    enemyZones: [{ x: 0, y: 0, width: 200, height: 200 }],
+    ...overrides,
+  };
+}
+
+describe('MapRegistry', () => {
+  it('should load every shipped map', () => {
+    const registry = new MapRegistry();
+    registry.loadDirectory(join(__dirname, '../../assets/maps'));
+
+    expect(registry.list()).toEqual([
+      { id: 'arena', name: 'Arena' },
+      { id: 'crossroads', name: 'Crossroads' },
+      { id: 'random', name: 'Random Arena' },
+    ]);
+    expect(registry.getDefault().id).toBe('arena');
+  });
+
+  it('should generate random arenas and rebuild them from their id', () => {
+    const registry = new MapRegistry();
+    const map = registry.get('random');
+
+    expect(map?.id).toMatch(/^random-\d+$/);
+    expect(registry.get(map?.id ?? '')).toEqual(map);
+  });
+
+  it('should refuse two maps with the same id', () => {
+    const registry = new MapRegistry();
+    registry.register(parseGameMap(mapFile(), 'a.json'));
+
+    expect(() => registry.register(parseGameMap(mapFile(), 'b.json'))).toThrow('used twice');
+  });
+
+  describe('parseGameMap', () => {
+    it('should accept a valid map', () => {
+      expect(parseGameMap(mapFile(), 'test.json')).toMatchObject({ id: 'test', width: 1000 });
+    });
+
+    it.each([
+      ['an unknown version', { version: 99 }, 'version 99'],
+      ['missing dimensions', { width: 0 }, 'width and height'],
+      ['a malformed obstacle', { obstacles: [{ x: 1, y: 1 }] }, 'obstacles[0]'],
+      ['a zone off the map', { orbZones: [{ x: 900, y: 900, width: 200, height: 50 }] }, 'orbZones[0] lies outside'],
+      ['a spawn point off the map', { spawnPoints: [{ x: 1200, y: 10 }] }, 'spawnPoints[0] lies outside'],
+      ['a blocked spawn point', { spawnPoints: [{ x: 390, y: 450 }] }, 'spawnPoints[0] is blocked'],
+    ])('should reject %s', (_, overrides, message) => {
+      expect(() => parseGameMap(mapFile(overrides), 'bad.json')).toThrow(`Invalid map bad.json: ${message}`);
+    });
+  });
+});
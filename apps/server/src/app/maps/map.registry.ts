@@ -0,0 +1,119 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { GameMap, MAP_FORMAT_VERSION, MapSummary } from '@tiny-tanks-time/protocol';
+import { generateArena } from './map.generator';
+
+export const MAPS_DIR = process.env.MAPS_DIR || join(__dirname, 'assets', 'maps');
+export const DEFAULT_MAP_ID = process.env.DEFAULT_MAP || 'arena';
+
+// `random` generates a fresh arena; `random-<seed>` rebuilds a specific one.
+export const RANDOM_MAP_ID = 'random';
+const SEEDED_MAP_ID = /^random-(\d+)$/;
+
+// Room a tank needs around a spawn point; matches the engine's tank radius.
+const SPAWN_CLEARANCE = 20;
+
+/**
+ * Map files loaded at startup. A broken file stops the server from booting
+ * rather than surfacing halfway through a match.
+ */
+@Injectable()
+export class MapRegistry implements OnModuleInit {
+  private logger = new Logger('MapRegistry');
+  private maps = new Map<string, GameMap>();
+
+  onModuleInit() {
+    this.loadDirectory(MAPS_DIR);
+  }
+
+  loadDirectory(dir: string) {
+    const files = readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+    for (const file of files) {
+      this.register(parseGameMap(JSON.parse(readFileSync(join(dir, file), 'utf8')), file));
+    }
+    this.logger.log(`Loaded ${files.length} map(s) from ${dir}`);
+  }
+
+  register(map: GameMap) {
+    if (this.maps.has(map.id)) {
+      throw new Error(`Map id "${map.id}" is used twice`);
+    }
+    this.maps.set(map.id, map);
+  }
+
+  get(id: string): GameMap | undefined {
+    if (id === RANDOM_MAP_ID) {
+      return generateArena(Math.floor(Math.random() * 2 ** 32));
+    }
+    const seeded = SEEDED_MAP_ID.exec(id);
+    if (seeded && Number(seeded[1]) < 2 ** 32) {
+      return generateArena(Number(seeded[1]));
+    }
+    return this.maps.get(id);
+  }
+
+  getDefault(): GameMap {
+    const map = this.get(DEFAULT_MAP_ID) ?? this.maps.values().next().value;
+    if (!map) throw new Error('No maps loaded');
+    return map;
+  }
+
+  list(): MapSummary[] {
+    const maps = Array.from(this.maps.values(), map => ({ id: map.id, name: map.name }));
+    return [...maps, { id: RANDOM_MAP_ID, name: 'Random Arena' }];
+  }
+}
+
+/** Checks an untrusted map file against the current format; `source` names it in errors. */
+export function parseGameMap(raw: unknown, source: string): GameMap {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid map ${source}: ${problem}`);
+  };
+
+  if (!isRecord(raw)) return fail('not an object');
+  if (raw['version'] !== MAP_FORMAT_VERSION) {
+    fail(`version ${raw['version']} is not supported (expected ${MAP_FORMAT_VERSION})`);
+  }
+  if (typeof raw['id'] !== 'string' || !raw['id']) fail('missing id');
+  if (typeof raw['name'] !== 'string' || !raw['name']) fail('missing name');
+  if (!isPositive(raw['width']) || !isPositive(raw['height'])) fail('width and height must be positive numbers');
+
+  const map = raw as unknown as GameMap;
+  const rects = ['obstacles', 'orbZones', 'enemyZones'] as const;
+  for (const key of rects) {
+    if (!Array.isArray(map[key])) fail(`${key} must be an array`);
+    map[key].forEach((rect, i) => {
+      if (![rect?.x, rect?.y].every(Number.isFinite) || !isPositive(rect?.width) || !isPositive(rect?.height)) {
+        fail(`${key}[${i}] must have x, y and a positive width and height`);
+      }
+      if (rect.x < 0 || rect.y < 0 || rect.x + rect.width > map.width || rect.y + rect.height > map.height) {
+        fail(`${key}[${i}] lies outside the map`);
+      }
+    });
+  }
+
+  if (!Array.isArray(map.spawnPoints)) fail('spawnPoints must be an array');
+  map.spawnPoints.forEach((point, i) => {
+    if (![point?.x, point?.y].every(Number.isFinite)) fail(`spawnPoints[${i}] must have x and y`);
+    const { x, y } = point;
+    if (x < SPAWN_CLEARANCE || y < SPAWN_CLEARANCE || x > map.width - SPAWN_CLEARANCE || y > map.height - SPAWN_CLEARANCE) {
+      fail(`spawnPoints[${i}] lies outside the map`);
+    }
+    const blocked = map.obstacles.some(obs =>
+      x > obs.x - SPAWN_CLEARANCE && x < obs.x + obs.width + SPAWN_CLEARANCE &&
+      y > obs.y - SPAWN_CLEARANCE && y < obs.y + obs.height + SPAWN_CLEARANCE
+    );
+    if (blocked) fail(`spawnPoints[${i}] is blocked by an obstacle`);
+  });
+
+  return map;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,86 @@
+import { join } from 'path';
+import { MapRegistry } from '../maps/map.registry';
+import { DEFAULT_ROOM_BOTS, MAX_ROOM_BOTS, PUBLIC_ROOM_CODE, RoomManager, botSettings } from './room.manager';
+
+describe('RoomManager', () => {
+  let maps: MapRegistry;
+  let rooms: RoomManager;
+
+  beforeEach(() => {
+    maps = new MapRegistry();
+    maps.loadDirectory(join(__dirname, '../../assets/maps'));
+    rooms = new RoomManager(maps);
+  });
+
+  it('should reuse the public room until it empties', () => {
+    const room = rooms.getPublicRoom();
+    rooms.join(room, 'a');
+
+    expect(room.code).toBe(PUBLIC_ROOM_CODE);
+    expect(rooms.getPublicRoom()).toBe(room);
+  });
+
+  it('should give each private room its own engine and code', () => {
+    const first = rooms.createPrivateRoom();
+    const second = rooms.createPrivateRoom();
+    rooms.join(first, 'a');
+    rooms.join(second, 'b');
+
+    expect(first.code).toMatch(/^[A-Z2-9]{5}$/);
+    expect(first.code).not.toBe(second.code);
+    expect(first.engine).not.toBe(second.engine);
+    expect(first.engine.state.players.has('a')).toBe(true);
+    expect(first.engine.state.players.has('b')).toBe(false);
+  });
+
+  it('should run the default map unless a room picks another', () => {
+    const crossroads = maps.get('crossroads');
+    if (!crossroads) throw new Error('crossroads map should be shipped');
+
+    expect(rooms.getPublicRoom().engine.map.id).toBe('arena');
+    expect(rooms.toInfo(rooms.createPrivateRoom(crossroads))).toMatchObject({ isPrivate: true, mapId: 'crossroads' });
+  });
+
+  it('should look rooms up by code regardless of case', () => {
+    const room = rooms.createPrivateRoom();
+
+    expect(rooms.getRoom(` ${room.code.toLowerCase()} `)).toBe(room);
+    expect(rooms.getRoom('NOPE1')).toBeUndefined();
+  });
+
+  it('should track which room a player is in', () => {
+    const room = rooms.createPrivateRoom();
+    rooms.join(room, 'a');
+
+    expect(rooms.roomOf('a')).toBe(room);
+    expect(rooms.roomOf('b')).toBeUndefined();
+  });
+
+  it('should close a room when its last human leaves', () => {
+    const room = rooms.createPrivateRoom();
+    rooms.join(room, 'a');
+    rooms.join(room, 'b');
+
+    const first = rooms.leave('a');
+    expect(first?.closed).toBe(false);
+    expect(room.engine.state.players.has('a')).toBe(false);
+    expect(rooms.getRoom(room.code)).toBe(room);
+
+    expect(rooms.leave('b')?.closed).toBe(true);
+    expect(rooms.getRoom(room.code)).toBeUndefined();
+    expect(rooms.size).toBe(0);
+  });
+
+  it('should fill a private room with the bots it asked for, within limits', () => {
+    const room = rooms.createPrivateRoom(undefined, { count: 3, mix: { easy: 0, normal: 0, hard: 1 } });
+
+    expect(rooms.toInfo(room).bots).toEqual({ count: 3, mix: { easy: 0, normal: 0, hard: 1 } });
+    expect(rooms.getPublicRoom().bots).toEqual(DEFAULT_ROOM_BOTS);
+    expect(botSettings({ count: 500 }).count).toBe(MAX_ROOM_BOTS);
+    expect(botSettings({ count: -2, mix: { easy: -1, normal: NaN, hard: 2 } })).toEqual({ count: 0, mix: { easy: 0, normal: 0, hard: 2 } });
+  });
+
+  it('should ignore leaves from players outside any room', () => {
+    expect(rooms.leave('ghost')).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ChassisKind, GameMap, RoomBotSettings, RoomInfo } from '@tiny-tanks-time/protocol';
+import { BOT_DIFFICULTIES } from '../engine/bots';
+import { GameEngine } from '../engine/game.engine';
+import { GameEvent } from '../engine/game.events';
+import { MapRegistry } from '../maps/map.registry';
+
+export interface GameRoom {
+  code: string;
+  isPrivate: boolean;
+  engine: GameEngine;
+  humans: Set<string>;
+  bots: RoomBotSettings;
+}
+
+export interface RoomLeaveResult {
+  room: GameRoom;
+  events: GameEvent[];
+  closed: boolean;
+}
+
+export const PUBLIC_ROOM_CODE = 'PUBLIC';
+export const MAX_ROOM_PLAYERS = 16;
+export const MAX_ROOM_BOTS = 24;
+export const DEFAULT_ROOM_BOTS: RoomBotSettings = { count: 8, mix: { easy: 1, normal: 2, hard: 1 } };
+
+// No 0/O or 1/I so codes survive being read out loud.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+
+// How far around their tank players are told about (px); the engine default when unset.
+const INTEREST_RADIUS = Number(process.env.INTEREST_RADIUS) || 0;
+
+/**
+ * Owns every running arena. Each room has its own engine, and a room is
+ * closed as soon as its last human leaves; bots do not keep it alive.
+ */
+@Injectable()
+export class RoomManager {
+  private logger = new Logger('RoomManager');
+  private rooms = new Map<string, GameRoom>();
+  private playerRooms = new Map<string, GameRoom>();
+
+  constructor(private readonly maps: MapRegistry) {}
+
+  all(): IterableIterator<GameRoom> {
+    return this.rooms.values();
+  }
+
+  get size(): number {
+    return this.rooms.size;
+  }
+
+  getRoom(code: string): GameRoom | undefined {
+    return this.rooms.get(code.trim().toUpperCase());
+  }
+
+  getPublicRoom(): GameRoom {
+    return this.rooms.get(PUBLIC_ROOM_CODE) ?? this.openRoom(PUBLIC_ROOM_CODE, false, this.maps.getDefault(), DEFAULT_ROOM_BOTS);
+  }
+
+  createPrivateRoom(map: GameMap = this.maps.getDefault(), bots: Partial<RoomBotSettings> = {}): GameRoom {
+    let code: string;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () =>
+        CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+      ).join('');
+    } while (this.rooms.has(code));
+
+    return this.openRoom(code, true, map, botSettings(bots));
+  }
+
+  roomOf(playerId: string): GameRoom | undefined {
+    return this.playerRooms.get(playerId);
+  }
+
+  isFull(room: GameRoom): boolean {
+    return room.humans.size >= MAX_ROOM_PLAYERS;
+  }
+
+  join(room: GameRoom, playerId: string, chassis?: ChassisKind): GameEvent[] {
+    room.humans.add(playerId);
+    this.playerRooms.set(playerId, room);
+    return room.engine.addPlayer(playerId, chassis);
+  }
+
+  leave(playerId: string): RoomLeaveResult | null {
+    const room = this.playerRooms.get(playerId);
+    if (!room) return null;
+
+    this.playerRooms.delete(playerId);
+    room.humans.delete(playerId);
+    const events = room.engine.removePlayer(playerId);
+
+    const closed = room.humans.size === 0;
+    if (closed) {
+      this.rooms.delete(room.code);
+      this.logger.log(`Room ${room.code} closed (${this.rooms.size} open)`);
+    }
+    return { room, events, closed };
+  }
+
+  toInfo(room: GameRoom): RoomInfo {
+    return { code: room.code, isPrivate: room.isPrivate, mapId: room.engine.map.id, bots: room.bots };
+  }
+
+  private openRoom(code: string, isPrivate: boolean, map: GameMap, bots: RoomBotSettings): GameRoom {
+    const options = { map, botCount: bots.count, botMix: bots.mix };
+    const room: GameRoom = {
+      code,
+      isPrivate,
+      engine: new GameEngine(INTEREST_RADIUS ? { ...options, interestRadius: INTEREST_RADIUS } : options),
+      humans: new Set(),
+      bots,
+    };
+    this.rooms.set(code, room);
+    this.logger.log(`Room ${code} opened on ${map.id} (${this.rooms.size} open)`);
+    return room;
+  }
+}
+
+/** Fills in what a client left out and reins in what it overdid; the request comes straight off the socket. */
+export function botSettings(requested: Partial<RoomBotSettings>): RoomBotSettings {
+  const count = Math.floor(Number(requested.count ?? DEFAULT_ROOM_BOTS.count));
+  const mix = { ...DEFAULT_ROOM_BOTS.mix };
+  if (requested.mix) {
+    for (const difficulty of BOT_DIFFICULTIES) {
+      const share = Number(requested.mix[difficulty] ?? 0);
+      mix[difficulty] = Number.isFinite(share) ? Math.max(0, share) : 0;
+    }
+  }
+  return {
+    count: Number.isFinite(count) ? Math.min(MAX_ROOM_BOTS, Math.max(0, count)) : DEFAULT_ROOM_BOTS.count,
+    mix,
+  };
+}
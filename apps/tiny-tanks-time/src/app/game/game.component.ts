@@ -1,72 +1,41 @@
 import { Component, OnInit, OnDestroy, HostListener, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import {
+  AbilityKind,
+  AbilityUsedPayload,
+  BossStatusPayload,
+  BULLET_RADIUS,
+  BotDifficulty,
+  Bullet,
+  BulletExplodedPayload,
+  ChassisKind,
+  Enemy,
+  LevelUpOptionsPayload,
+  MapSummary,
+  OVERCHARGE_FIRE_RATE_MULTIPLIER,
+  Obstacle,
+  Orb,
+  Player,
+  PlayerHitPayload,
+  PlayerMoveInput,
+  SnapshotFrame,
+  StatusEffectKind,
+  Upgrade,
+  WaveStartedPayload,
+  WorldSnapshotPayload,
+  applySnapshot,
+  effectKinds,
+  effectSpeedMultiplier,
+  moveBullet,
+} from '@tiny-tanks-time/protocol';
 import { GameService } from './game.service';
 
-export interface PlayerStats {
-  maxHp: number;
-  fireRate: number;
-  bulletCount: number;
-  bulletDamage: number;
-  bulletSpeed: number;
-  moveSpeed: number;
-  pickupRange: number;
-  rearGuard: boolean;
-  bulletLifeTime: number;
-  spreadAngle: number;
-  regenRate: number;
-  regen?: number; // legacy/unified
-}
-
-export interface Player {
-  id: string;
-  x: number;
-  y: number;
-  angle: number;
-  color: string;
-  hp: number;
-  maxHp: number;
-  exp: number;
-  level: number;
-  maxExp: number;
-  immuneUntil?: number;
-  stats?: PlayerStats;
-  upgrades?: Upgrade[];
+/** A player as rendered locally, with interpolation and effect state. */
+export interface PlayerView extends Player {
   targetX?: number;
   targetY?: number;
   targetAngle?: number;
   shootingUntil?: number;
-  isBot?: boolean;
-}
-
-export interface Bullet {
-  id: string;
-  x: number;
-  y: number;
-  angle: number;
-  playerId: string;
-}
-
-export interface Orb {
-  id: string;
-  x: number;
-  y: number;
-  value: number;
-}
-
-export interface Upgrade {
-  id: string;
-  name: string;
-  description: string;
-  rarity: 'Common' | 'Uncommon' | 'Rare' | 'Epic' | 'Legendary';
-}
-
-export interface Enemy {
-  id: string;
-  x: number;
-  y: number;
-  size: number;
-  hp: number;
-  maxHp: number;
 }
 
 @Component({
@@ -79,21 +48,43 @@ export interface Enemy {
 export class GameComponent implements OnInit, OnDestroy {
   @ViewChild('gameArea', { static: false }) gameArea?: ElementRef<HTMLDivElement>;
 
-  players: Player[] = [];
+  players: PlayerView[] = [];
   bullets: Bullet[] = [];
+  explosions: (BulletExplodedPayload & { until: number })[] = [];
+  // Our own last ability use, for the cooldown in the HUD.
+  abilityUse: AbilityUsedPayload | null = null;
+  readonly abilityNames: Record<AbilityKind, string> = { dash: 'Dash', shield: 'Bubble Shield', overcharge: 'Overcharge' };
+  // Status effects on tanks and enemies by id, as of the last snapshot.
+  effects = new Map<string, StatusEffectKind[]>();
+  private readonly EXPLOSION_MS = 400;
   orbs: Orb[] = [];
   enemies: Enemy[] = [];
-  currentPlayer: Player | null = null;
-  levelUpOptions: Upgrade[] | null = null;
+  currentPlayer: PlayerView | null = null;
+  levelUpOffer: LevelUpOptionsPayload | null = null;
+  boss: BossStatusPayload | null = null;
+  wave = 1;
+  waveBanner: WaveStartedPayload | null = null;
+  private waveBannerTimer?: ReturnType<typeof setTimeout>;
+  private readonly WAVE_BANNER_MS = 4000;
   keys: { [key: string]: boolean } = {};
   gameStarted = false;
   isDead = false;
+  roomCode: string | null = null;
+  roomError: string | null = null;
   private mouseAngle: number | null = null;
   private mousePressed = false;
-  private readonly BULLET_SPEED = 360; // px/sec
   private readonly SHOOT_COOLDOWN_MS = 300;
   private lastShotAt = 0;
 
+  // Inputs sent but not yet acknowledged, replayed on top of every server ack.
+  private pendingInputs: PlayerMoveInput[] = [];
+  private nextInputSeq = 0;
+  private readonly MAX_PENDING_INPUTS = 120;
+
+  // Recently applied snapshots; the server encodes deltas against whichever we acked last.
+  private snapshotFrames = new Map<number, SnapshotFrame>();
+  private readonly MAX_SNAPSHOT_FRAMES = 32;
+
   private lastFrameTs: number | null = null;
 
   worldWidth = 4000;
@@ -102,11 +93,24 @@ export class GameComponent implements OnInit, OnDestroy {
   private cameraOffsetX = 0;
   private cameraOffsetY = 0;
 
-  obstacles: Array<{ x: number; y: number; width: number; height: number }> = [
-    { x: 400, y: 300, width: 120, height: 40 },
-    { x: 900, y: 600, width: 60, height: 200 },
-    { x: 1400, y: 450, width: 200, height: 60 },
-    { x: 700, y: 1100, width: 300, height: 40 },
+  // Filled in from the map the server sends with the game state.
+  obstacles: Obstacle[] = [];
+  mapName: string | null = null;
+  maps: MapSummary[] = [];
+  // Difficulty presets a private room can be filled with.
+  readonly botMixes: { label: string; mix: Record<BotDifficulty, number> }[] = [
+    { label: 'Mixed bots', mix: { easy: 1, normal: 2, hard: 1 } },
+    { label: 'Easy bots', mix: { easy: 1, normal: 0, hard: 0 } },
+    { label: 'Normal bots', mix: { easy: 0, normal: 1, hard: 0 } },
+    { label: 'Hard bots', mix: { easy: 0, normal: 0, hard: 1 } },
+  ];
+  // Picked on the start screen and sent with every join; the server keeps it across respawns.
+  chassis: ChassisKind = 'standard';
+  readonly chassisOptions: { kind: ChassisKind; name: string; stats: string; passive: string }[] = [
+    { kind: 'standard', name: 'Standard', stats: 'Balanced all-rounder', passive: 'No passive' },
+    { kind: 'scout', name: 'Scout', stats: 'Fast and quick-firing, but fragile', passive: 'Abilities recharge 40% faster' },
+    { kind: 'heavy', name: 'Heavy', stats: 'Slow, tough, fires big shells', passive: 'Shrugs off slows and stuns' },
+    { kind: 'artillery', name: 'Artillery', stats: 'Long range, hard-hitting, slow to fire', passive: '+50% damage on hits 500px+ away' },
   ];
 
   Math = Math;
@@ -116,11 +120,40 @@ export class GameComponent implements OnInit, OnDestroy {
   ngOnInit() {
     this.gameService.connect();
 
+    this.gameService.onRoomJoined().subscribe((room) => {
+      if (!room) return;
+      this.roomCode = room.code;
+      this.roomError = null;
+      this.isDead = false;
+      this.gameStarted = true;
+    });
+
+    this.gameService.onRoomError().subscribe((error) => {
+      this.roomError = error.message;
+    });
+
+    this.gameService.onMapsAvailable().subscribe((maps) => {
+      this.maps = maps;
+    });
+
     this.gameService.onGameState().subscribe((gameState) => {
+      if (!gameState) return;
+      this.worldWidth = gameState.map.width;
+      this.worldHeight = gameState.map.height;
+      this.obstacles = gameState.map.obstacles;
+      this.mapName = gameState.map.name;
       this.players = gameState.players;
       this.bullets = gameState.bullets;
       this.orbs = gameState.orbs || [];
+      this.enemies = gameState.enemies || [];
       this.currentPlayer = this.players.find(p => p.id === this.gameService.getPlayerId()) || null;
+      this.pendingInputs = [];
+      this.snapshotFrames.clear();
+      this.effects.clear();
+      this.abilityUse = null;
+      // A new room's wave and boss, if any, follow right after.
+      this.wave = 1;
+      this.boss = null;
     });
 
     this.gameService.onPlayerJoined().subscribe((player) => {
@@ -133,33 +166,24 @@ export class GameComponent implements OnInit, OnDestroy {
       this.players = this.players.filter(p => p.id !== playerId);
     });
 
-    this.gameService.onPlayerMoved().subscribe((playerData) => {
-      if (!playerData) return;
-      if (playerData.id === this.currentPlayer?.id) return;
+    this.gameService.onWorldSnapshot().subscribe((snapshot) => {
+      this.applyWorldSnapshot(snapshot);
+    });
 
-      const player = this.players.find(p => p.id === playerData.id);
-      if (player) {
-        player.targetX = playerData.x;
-        player.targetY = playerData.y;
-        player.targetAngle = playerData.angle;
-
-        const dx = player.x - (player.targetX || player.x);
-        const dy = player.y - (player.targetY || player.y);
-        const dist = Math.sqrt(dx * dx + dy * dy);
-
-        if (!player.targetX || dist > 200) {
-          player.x = playerData.x;
-          player.y = playerData.y;
-          player.angle = playerData.angle;
-        }
+    // The server only tells us about what is near our tank.
+    this.gameService.onEntitiesEntered().subscribe((entities) => {
+      const known = (list: { id: string }[], id: string) => list.some(e => e.id === id);
+      this.players.push(...entities.players.filter(p => !known(this.players, p.id)));
+      this.enemies.push(...entities.enemies.filter(e => !known(this.enemies, e.id)));
+      this.orbs.push(...entities.orbs.filter(o => !known(this.orbs, o.id)));
+      this.bullets.push(...entities.bullets.filter(b => !known(this.bullets, b.id)));
+    });
 
-        player.hp = playerData.hp;
-        player.maxHp = playerData.maxHp;
-        player.exp = playerData.exp;
-        player.level = playerData.level;
-        player.maxExp = playerData.maxExp;
-        if (playerData.stats) player.stats = playerData.stats;
-      }
+    this.gameService.onEntitiesLeft().subscribe((entities) => {
+      this.players = this.players.filter(p => p === this.currentPlayer || !entities.players.includes(p.id));
+      this.enemies = this.enemies.filter(e => !entities.enemies.includes(e.id));
+      this.orbs = this.orbs.filter(o => !entities.orbs.includes(o.id));
+      this.bullets = this.bullets.filter(b => !entities.bullets.includes(b.id));
     });
 
     this.gameService.onBulletShot().subscribe((bullet) => {
@@ -176,6 +200,10 @@ export class GameComponent implements OnInit, OnDestroy {
       this.bullets = this.bullets.filter(b => b.id !== bulletId);
     });
 
+    this.gameService.onBulletExploded().subscribe((explosion) => {
+      this.explosions.push({ ...explosion, until: Date.now() + this.EXPLOSION_MS });
+    });
+
     this.gameService.onOrbSpawned().subscribe((orb) => {
       if (orb) {
         this.orbs.push(orb);
@@ -190,18 +218,37 @@ export class GameComponent implements OnInit, OnDestroy {
       if (enemy) this.enemies.push(enemy);
     });
 
-    this.gameService.onEnemiesMoved().subscribe((enemies) => {
-      if (enemies) {
-        this.enemies = enemies;
-      }
-    });
-
     this.gameService.onEnemyDied().subscribe((id) => {
       this.enemies = this.enemies.filter(e => e.id !== id);
     });
 
-    this.gameService.onLevelUpOptions().subscribe((options) => {
-      this.levelUpOptions = options;
+    this.gameService.onWaveStarted().subscribe((wave) => {
+      this.wave = wave.wave;
+      this.waveBanner = wave;
+      clearTimeout(this.waveBannerTimer);
+      this.waveBannerTimer = setTimeout(() => this.waveBanner = null, this.WAVE_BANNER_MS);
+    });
+
+    // The boss bar tracks the room's boss even while it is out of view.
+    this.gameService.onBossStatus().subscribe((boss) => {
+      this.boss = boss;
+    });
+
+    this.gameService.onBossDefeated().subscribe(() => {
+      this.boss = null;
+    });
+
+    this.gameService.onAbilityUsed().subscribe((use) => {
+      if (use.id === this.currentPlayer?.id) this.abilityUse = use;
+    });
+
+    this.gameService.onLevelUpOptions().subscribe((offer) => {
+      this.levelUpOffer = offer;
+    });
+
+    // Also fires when the server picks for us because the timer ran out.
+    this.gameService.onLevelUpResolved().subscribe(() => {
+      this.levelUpOffer = null;
     });
 
     this.gameService.onPlayerExpUpdate().subscribe((data) => {
@@ -235,7 +282,7 @@ export class GameComponent implements OnInit, OnDestroy {
       this.isDead = true;
     });
 
-    this.gameService.getSocket().on('playerHit', (data: Player) => {
+    this.gameService.getSocket().on('playerHit', (data: PlayerHitPayload) => {
       const p = this.players.find(pl => pl.id === data.id);
       if (p) {
         p.hp = data.hp;
@@ -249,6 +296,7 @@ export class GameComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy() {
+    clearTimeout(this.waveBannerTimer);
     this.gameService.disconnect();
   }
 
@@ -257,22 +305,29 @@ export class GameComponent implements OnInit, OnDestroy {
     const k = event.key.toLowerCase();
     this.keys[k] = true;
 
-    if (this.levelUpOptions) {
-      if (k === '1' && this.levelUpOptions[0]) {
-        this.selectUpgrade(this.levelUpOptions[0]);
+    if (this.levelUpOffer) {
+      const option = this.levelUpOffer.options[Number(k) - 1];
+      if (option) {
+        this.selectUpgrade(option);
         event.preventDefault();
         return;
-      } else if (k === '2' && this.levelUpOptions[1]) {
-        this.selectUpgrade(this.levelUpOptions[1]);
+      } else if (k === 'r') {
+        this.rerollUpgrades();
         event.preventDefault();
         return;
-      } else if (k === '3' && this.levelUpOptions[2]) {
-        this.selectUpgrade(this.levelUpOptions[2]);
+      } else if (k === 'x') {
+        this.skipUpgrade();
         event.preventDefault();
         return;
       }
     }
 
+    if (k === 'shift') {
+      this.useAbility();
+      event.preventDefault();
+      return;
+    }
+
     if (k === 'w' || k === 'a' || k === 's' || k === 'd' || k === ' ' || k === 'arrowup' || k === 'arrowdown' || k === 'arrowleft' || k === 'arrowright') {
       event.preventDefault();
     }
@@ -307,42 +362,101 @@ export class GameComponent implements OnInit, OnDestroy {
   handleInput(dt: number) {
     if (!this.currentPlayer || this.isDead) return;
 
-    const speed = (this.currentPlayer.stats?.moveSpeed || 240) * dt;
-    let newX = this.currentPlayer.x;
-    let newY = this.currentPlayer.y;
-    const newAngle = this.mouseAngle ?? this.currentPlayer.angle;
+    const angle = this.mouseAngle ?? this.currentPlayer.angle;
+    const { dx, dy } = this.moveDirection();
 
-    let dx = 0;
-    let dy = 0;
-
-    if (this.keys['w'] || this.keys['arrowup']) dy -= 1;
-    if (this.keys['s'] || this.keys['arrowdown']) dy += 1;
-    if (this.keys['a'] || this.keys['arrowleft']) dx -= 1;
-    if (this.keys['d'] || this.keys['arrowright']) dx += 1;
+    if (this.keys[' '] || this.mousePressed) {
+      this.shoot();
+    }
 
-    if (dx !== 0 || dy !== 0) {
-      const length = Math.sqrt(dx * dx + dy * dy);
-      dx = (dx / length) * speed;
-      dy = (dy / length) * speed;
+    // Predict locally; the server acks each input and we reconcile against it.
+    const input: PlayerMoveInput = { seq: this.nextInputSeq++, dx, dy, angle, dt: dt * 1000 };
+    this.applyMoveInput(input);
+    this.pendingInputs.push(input);
+    if (this.pendingInputs.length > this.MAX_PENDING_INPUTS) {
+      this.pendingInputs.shift();
     }
 
-    const nextX = newX + dx;
-    const nextY = newY + dy;
+    this.gameService.movePlayer(input);
+  }
+
+  // Mirrors GameEngine.applyMoveInput so replays land where the server will.
+  private applyMoveInput(input: PlayerMoveInput) {
+    if (!this.currentPlayer) return;
+
+    this.currentPlayer.angle = input.angle;
+
+    const slowdown = effectSpeedMultiplier(this.effects.get(this.currentPlayer.id) ?? []);
+    const distance = (this.currentPlayer.stats?.moveSpeed || 240) * slowdown * (input.dt / 1000);
+    const nextX = this.currentPlayer.x + input.dx * distance;
+    const nextY = this.currentPlayer.y + input.dy * distance;
 
     if (!this.checkCollision(nextX, nextY, 20)) {
-      newX = nextX;
-      newY = nextY;
+      this.currentPlayer.x = nextX;
+      this.currentPlayer.y = nextY;
     }
+  }
 
-    if (this.keys[' '] || this.mousePressed) {
-      this.shoot();
+  private applyWorldSnapshot(snapshot: WorldSnapshotPayload) {
+    const frame = applySnapshot(this.snapshotFrames.get(snapshot.baseTick), snapshot);
+    if (!frame) return;
+
+    this.snapshotFrames.set(frame.tick, frame);
+    if (this.snapshotFrames.size > this.MAX_SNAPSHOT_FRAMES) {
+      this.snapshotFrames.delete(Math.min(...this.snapshotFrames.keys()));
     }
+    this.gameService.ackSnapshot(frame.tick);
+
+    [...snapshot.players, ...snapshot.enemies].forEach(data => {
+      if (data.effects) {
+        this.effects.set(data.id, effectKinds(data.effects));
+      } else {
+        this.effects.delete(data.id);
+      }
+    });
+    [...snapshot.removedPlayers, ...snapshot.removedEnemies].forEach(id => this.effects.delete(id));
+
+    snapshot.players.forEach(data => {
+      const player = this.players.find(p => p.id === data.id);
+      if (!player) return;
+
+      player.hp = data.hp;
+      player.maxHp = data.maxHp;
+      player.exp = data.exp;
+      player.level = data.level;
+      player.maxExp = data.maxExp;
+      if (player === this.currentPlayer) return;
+
+      const dx = player.x - data.x;
+      const dy = player.y - data.y;
+      if (player.targetX === undefined || Math.sqrt(dx * dx + dy * dy) > 200) {
+        player.x = data.x;
+        player.y = data.y;
+        player.angle = data.angle;
+      }
+      player.targetX = data.x;
+      player.targetY = data.y;
+      player.targetAngle = data.angle;
+    });
 
-    this.currentPlayer.x = newX;
-    this.currentPlayer.y = newY;
-    this.currentPlayer.angle = newAngle;
+    snapshot.enemies.forEach(data => {
+      const enemy = this.enemies.find(e => e.id === data.id);
+      if (enemy) {
+        enemy.x = data.x;
+        enemy.y = data.y;
+        enemy.hp = data.hp;
+        if (data.phase) enemy.phase = data.phase;
+      }
+    });
 
-    this.gameService.movePlayer(newX, newY, newAngle);
+    if (snapshot.input && this.currentPlayer) {
+      // Rewind to the server's position and replay what it has not seen yet.
+      const ack = snapshot.input;
+      this.pendingInputs = this.pendingInputs.filter(input => input.seq > ack.seq);
+      this.currentPlayer.x = ack.x;
+      this.currentPlayer.y = ack.y;
+      this.pendingInputs.forEach(input => this.applyMoveInput(input));
+    }
   }
 
   updateOtherPlayers(dt: number) {
@@ -364,20 +478,55 @@ export class GameComponent implements OnInit, OnDestroy {
     });
   }
 
+  // The movement keys held right now, as a unit vector (or zero).
+  private moveDirection(): { dx: number; dy: number } {
+    let dx = 0;
+    let dy = 0;
+
+    if (this.keys['w'] || this.keys['arrowup']) dy -= 1;
+    if (this.keys['s'] || this.keys['arrowdown']) dy += 1;
+    if (this.keys['a'] || this.keys['arrowleft']) dx -= 1;
+    if (this.keys['d'] || this.keys['arrowright']) dx += 1;
+
+    if (dx !== 0 || dy !== 0) {
+      const length = Math.sqrt(dx * dx + dy * dy);
+      dx = dx / length;
+      dy = dy / length;
+    }
+    return { dx, dy };
+  }
+
   shoot() {
     if (!this.currentPlayer || this.isDead) return;
-    if (this.levelUpOptions) return;
+    if (this.levelUpOffer) return;
 
-    const fireRate = this.currentPlayer.stats?.fireRate || this.SHOOT_COOLDOWN_MS;
     const now = Date.now();
+    const overcharged = this.abilityUse?.ability === 'overcharge' && now < this.abilityUse.activeUntil;
+    const fireRate = (this.currentPlayer.stats?.fireRate || this.SHOOT_COOLDOWN_MS) * (overcharged ? OVERCHARGE_FIRE_RATE_MULTIPLIER : 1);
     if (now - this.lastShotAt < fireRate) return;
     this.lastShotAt = now;
 
-    // Use current angle for the tip position
-    const bulletX = this.currentPlayer.x + Math.cos(this.currentPlayer.angle) * 40;
-    const bulletY = this.currentPlayer.y + Math.sin(this.currentPlayer.angle) * 40;
+    // The server fires from its own copy of our position
+    this.gameService.shoot(this.currentPlayer.angle);
+  }
+
+  // Dashes go where we are driving, or where we aim when standing still.
+  useAbility() {
+    if (!this.currentPlayer || this.isDead || this.levelUpOffer) return;
+    if (this.abilityUse && Date.now() < this.abilityUse.readyAt) return;
+
+    const { dx, dy } = this.moveDirection();
+    this.gameService.useAbility(dx || dy ? Math.atan2(dy, dx) : this.currentPlayer.angle);
+  }
+
+  /** Share of the cooldown still to go, from 1 just after use down to 0 when ready. */
+  abilityCooldown(): number {
+    if (!this.abilityUse) return 0;
+    return Math.max(0, Math.min(1, (this.abilityUse.readyAt - Date.now()) / this.abilityUse.cooldownMs));
+  }
 
-    this.gameService.shoot(bulletX, bulletY, this.currentPlayer.angle);
+  abilityActive(): boolean {
+    return !!this.abilityUse && Date.now() < this.abilityUse.activeUntil;
   }
 
   triggerDebugLevelUp() {
@@ -385,7 +534,23 @@ export class GameComponent implements OnInit, OnDestroy {
   }
 
   startGame() {
-    this.gameStarted = true;
+    this.gameService.joinRoom(undefined, this.chassis);
+  }
+
+  createRoom(mapId: string, botCount: number, botMix: string) {
+    const bots = {
+      count: Number.isFinite(botCount) ? botCount : undefined,
+      mix: this.botMixes[Number(botMix)]?.mix,
+    };
+    this.gameService.createRoom(mapId || undefined, bots, this.chassis);
+  }
+
+  joinRoom(code: string) {
+    if (!code.trim()) {
+      this.roomError = 'Enter a room code';
+      return;
+    }
+    this.gameService.joinRoom(code, this.chassis);
   }
 
   @HostListener('window:mousemove', ['$event'])
@@ -409,21 +574,56 @@ export class GameComponent implements OnInit, OnDestroy {
   }
 
   private updateBullets(dt: number) {
+    const now = Date.now();
+    this.explosions = this.explosions.filter(e => e.until > now);
     if (!this.bullets || this.bullets.length === 0) return;
     this.bullets = this.bullets.filter((bullet) => {
-      const speed = this.BULLET_SPEED; // Basic client prediction
-      bullet.x += Math.cos(bullet.angle) * speed * dt;
-      bullet.y += Math.sin(bullet.angle) * speed * dt;
-
-      for (const o of this.obstacles) {
-        if (bullet.x >= o.x && bullet.x <= o.x + o.width && bullet.y >= o.y && bullet.y <= o.y + o.height) {
-          return false;
-        }
+      // Flames and lasers stand still until the server takes them away.
+      if (bullet.kind === 'flame' || bullet.kind === 'laser') return true;
+      if (bullet.kind === 'mine') {
+        if (!bullet.flightMs) return true;
+        bullet.flightMs = Math.max(0, bullet.flightMs - dt * 1000);
       }
-      return true;
+      if (bullet.kind === 'missile') this.steerMissile(bullet, dt);
+
+      // Same moves and ricochets as the server makes.
+      const { x, y } = bullet;
+      const arena = { width: this.worldWidth, height: this.worldHeight };
+      if (moveBullet(bullet, dt, arena, this.obstacles)) return true;
+
+      // Mines land against the wall instead.
+      if (bullet.kind === 'mine') {
+        bullet.x = x;
+        bullet.y = y;
+        bullet.flightMs = 0;
+        return true;
+      }
+      return false;
     });
   }
 
+  // Same turn as the server makes, towards wherever we last saw the target.
+  private steerMissile(missile: Bullet, dt: number) {
+    const target = this.players.find(p => p.id === missile.targetId) ?? this.enemies.find(e => e.id === missile.targetId);
+    if (!target) return;
+    const off = Math.atan2(target.y - missile.y, target.x - missile.x) - missile.angle;
+    const turn = (missile.turnRate ?? 0) * dt;
+    missile.angle += Math.max(-turn, Math.min(turn, Math.atan2(Math.sin(off), Math.cos(off))));
+  }
+
+  // Missiles point where they fly; shells fired bigger than usual are drawn to scale.
+  bulletTransform(bullet: Bullet): string | null {
+    const transforms: string[] = [];
+    if (bullet.kind === 'missile') transforms.push(`rotate(${bullet.angle}rad)`);
+    if (bullet.radius) transforms.push(`scale(${bullet.radius / BULLET_RADIUS})`);
+    return transforms.length ? transforms.join(' ') : null;
+  }
+
+  // Across the mouth of a flame cone; lasers are a fixed-width beam.
+  beamWidth(bullet: Bullet): number {
+    return bullet.kind === 'flame' ? 2 * (bullet.length ?? 0) * Math.tan((bullet.arc ?? 0) / 2) : 4;
+  }
+
   private updateCamera(dt: number) {
     if (!this.currentPlayer) {
       this.cameraTransform = '';
@@ -458,12 +658,35 @@ export class GameComponent implements OnInit, OnDestroy {
 
   selectUpgrade(upgrade: Upgrade) {
     this.gameService.selectUpgrade(upgrade.id);
-    this.levelUpOptions = null;
+    this.levelUpOffer = null;
+  }
+
+  rerollUpgrades() {
+    if (this.levelUpOffer && this.levelUpOffer.rerolls > 0) {
+      this.gameService.rerollUpgrades();
+    }
+  }
+
+  banishUpgrade(upgrade: Upgrade, event: Event) {
+    event.stopPropagation();
+    if (this.levelUpOffer && this.levelUpOffer.banishes > 0) {
+      this.gameService.banishUpgrade(upgrade.id);
+    }
+  }
+
+  skipUpgrade() {
+    this.gameService.skipUpgrade();
+    this.levelUpOffer = null;
+  }
+
+  autoPickSeconds(offer: LevelUpOptionsPayload): number {
+    return Math.max(0, Math.ceil((offer.autoPickAt - Date.now()) / 1000));
   }
 
   respawn() {
     this.gameService.respawn();
     this.isDead = false;
+    this.abilityUse = null;
     if (this.currentPlayer) {
       this.currentPlayer.level = 1;
       this.currentPlayer.exp = 0;
@@ -471,15 +694,34 @@ export class GameComponent implements OnInit, OnDestroy {
   }
 
   goToMainMenu() {
+    this.gameService.leaveRoom();
     this.gameStarted = false;
     this.isDead = false;
+    this.roomCode = null;
+    this.mapName = null;
+    this.levelUpOffer = null;
+    this.players = [];
+    this.bullets = [];
+    this.explosions = [];
+    this.orbs = [];
+    this.enemies = [];
+    this.currentPlayer = null;
+    this.pendingInputs = [];
+    this.snapshotFrames.clear();
+    this.effects.clear();
+    this.abilityUse = null;
+  }
+
+  effectClass(id: string): string | null {
+    const kinds = this.effects.get(id);
+    return kinds ? kinds.map(kind => 'effect-' + kind).join(' ') : null;
   }
 
-  isImmune(player: Player): boolean {
+  isImmune(player: PlayerView): boolean {
     return !!player.immuneUntil && player.immuneUntil > Date.now();
   }
 
-  isShooting(player: Player): boolean {
+  isShooting(player: PlayerView): boolean {
     return !!player.shootingUntil && player.shootingUntil > Date.now();
   }
 
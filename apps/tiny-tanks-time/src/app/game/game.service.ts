@@ -1,33 +1,66 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable, Subject } from 'rxjs';
 import { io, Socket } from 'socket.io-client';
-import { Player, Bullet, Orb, Upgrade, Enemy } from './game.component';
+import {
+  AbilityUsedPayload,
+  BossDefeatedPayload,
+  BossStatusPayload,
+  Bullet,
+  BulletExplodedPayload,
+  ChassisKind,
+  ClientToServerEvents,
+  EntitiesLeftPayload,
+  EntitiesPayload,
+  Enemy,
+  GameStatePayload,
+  LevelUpOptionsPayload,
+  LevelUpResolvedPayload,
+  MapSummary,
+  Orb,
+  Player,
+  PlayerExpUpdatePayload,
+  PlayerImmunityPayload,
+  PlayerMoveInput,
+  RoomBotSettings,
+  RoomErrorPayload,
+  RoomInfo,
+  ServerToClientEvents,
+  WaveStartedPayload,
+  WorldSnapshotPayload,
+} from '@tiny-tanks-time/protocol';
 import { environment } from '../enironments/environment';
 
 @Injectable({
   providedIn: 'root'
 })
 export class GameService {
-  private socket: Socket;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents>;
   private playerId: string | null = null;
 
-  private gameStateSubject = new BehaviorSubject<{ players: Player[], bullets: Bullet[], orbs: Orb[] }>({
-    players: [],
-    bullets: [],
-    orbs: []
-  });
+  private gameStateSubject = new BehaviorSubject<GameStatePayload | null>(null);
+  private mapsAvailableSubject = new BehaviorSubject<MapSummary[]>([]);
 
+  private roomJoinedSubject = new BehaviorSubject<RoomInfo | null>(null);
+  private roomErrorSubject = new Subject<RoomErrorPayload>();
   private playerJoinedSubject = new BehaviorSubject<Player | null>(null);
   private playerLeftSubject = new BehaviorSubject<string | null>(null);
-  private playerMovedSubject = new BehaviorSubject<Player | null>(null);
   private bulletShotSubject = new BehaviorSubject<Bullet | null>(null);
   private bulletRemovedSubject = new BehaviorSubject<string | null>(null);
   private orbSpawnedSubject = new BehaviorSubject<Orb | null>(null);
   private orbCollectedSubject = new BehaviorSubject<string | null>(null);
-  private levelUpOptionsSubject = new BehaviorSubject<Upgrade[] | null>(null);
-  private playerImmunitySubject = new BehaviorSubject<{ id: string, immuneUntil: number } | null>(null);
+  private levelUpOptionsSubject = new BehaviorSubject<LevelUpOptionsPayload | null>(null);
+  private levelUpResolvedSubject = new Subject<LevelUpResolvedPayload>();
+  private playerImmunitySubject = new BehaviorSubject<PlayerImmunityPayload | null>(null);
   private playerDiedSubject = new Subject<void>();
-  private playerExpUpdateSubject = new BehaviorSubject<any | null>(null);
+  private worldSnapshotSubject = new Subject<WorldSnapshotPayload>();
+  private entitiesEnteredSubject = new Subject<EntitiesPayload>();
+  private entitiesLeftSubject = new Subject<EntitiesLeftPayload>();
+  private playerExpUpdateSubject = new BehaviorSubject<PlayerExpUpdatePayload | null>(null);
+  private waveStartedSubject = new Subject<WaveStartedPayload>();
+  private bossStatusSubject = new Subject<BossStatusPayload>();
+  private bossDefeatedSubject = new Subject<BossDefeatedPayload>();
+  private bulletExplodedSubject = new Subject<BulletExplodedPayload>();
+  private abilityUsedSubject = new Subject<AbilityUsedPayload>();
 
   constructor() {
     const backendUrl = environment.backendUrl;
@@ -49,6 +82,18 @@ export class GameService {
       this.playerId = null;
     });
 
+    this.socket.on('mapsAvailable', (maps) => {
+      this.mapsAvailableSubject.next(maps);
+    });
+
+    this.socket.on('roomJoined', (room) => {
+      this.roomJoinedSubject.next(room);
+    });
+
+    this.socket.on('roomError', (error) => {
+      this.roomErrorSubject.next(error);
+    });
+
     this.socket.on('gameState', (gameState) => {
       this.gameStateSubject.next(gameState);
     });
@@ -61,10 +106,6 @@ export class GameService {
       this.playerLeftSubject.next(playerId);
     });
 
-    this.socket.on('playerMoved', (playerData) => {
-      this.playerMovedSubject.next(playerData);
-    });
-
     this.socket.on('bulletShot', (bullet) => {
       this.bulletShotSubject.next(bullet);
     });
@@ -73,6 +114,14 @@ export class GameService {
       this.bulletRemovedSubject.next(bulletId);
     });
 
+    this.socket.on('abilityUsed', (use) => {
+      this.abilityUsedSubject.next(use);
+    });
+
+    this.socket.on('bulletExploded', (explosion) => {
+      this.bulletExplodedSubject.next(explosion);
+    });
+
     this.socket.on('orbSpawned', (orb) => {
       this.orbSpawnedSubject.next(orb);
     });
@@ -81,8 +130,12 @@ export class GameService {
       this.orbCollectedSubject.next(orbId);
     });
 
-    this.socket.on('levelUpOptions', (options) => {
-      this.levelUpOptionsSubject.next(options);
+    this.socket.on('levelUpOptions', (offer) => {
+      this.levelUpOptionsSubject.next(offer);
+    });
+
+    this.socket.on('levelUpResolved', (resolution) => {
+      this.levelUpResolvedSubject.next(resolution);
     });
 
     this.socket.on('playerImmunity', (data) => {
@@ -93,9 +146,33 @@ export class GameService {
       this.playerDiedSubject.next();
     });
 
+    this.socket.on('worldSnapshot', (snapshot) => {
+      this.worldSnapshotSubject.next(snapshot);
+    });
+
+    this.socket.on('entitiesEntered', (entities) => {
+      this.entitiesEnteredSubject.next(entities);
+    });
+
+    this.socket.on('entitiesLeft', (entities) => {
+      this.entitiesLeftSubject.next(entities);
+    });
+
     this.socket.on('playerExpUpdate', (data) => {
       this.playerExpUpdateSubject.next(data);
     });
+
+    this.socket.on('waveStarted', (wave) => {
+      this.waveStartedSubject.next(wave);
+    });
+
+    this.socket.on('bossStatus', (boss) => {
+      this.bossStatusSubject.next(boss);
+    });
+
+    this.socket.on('bossDefeated', (result) => {
+      this.bossDefeatedSubject.next(result);
+    });
   }
 
   connect() {
@@ -108,18 +185,51 @@ export class GameService {
     this.socket.disconnect();
   }
 
-  movePlayer(x: number, y: number, angle: number) {
-    this.socket.emit('playerMove', { x, y, angle });
+  createRoom(mapId?: string, bots?: Partial<RoomBotSettings>, chassis?: ChassisKind) {
+    this.socket.emit('createRoom', { mapId, bots, chassis });
+  }
+
+  joinRoom(code?: string, chassis?: ChassisKind) {
+    this.socket.emit('joinRoom', { code, chassis });
+  }
+
+  leaveRoom() {
+    this.socket.emit('leaveRoom');
+    this.roomJoinedSubject.next(null);
+  }
+
+  movePlayer(input: PlayerMoveInput) {
+    this.socket.emit('playerMove', input);
+  }
+
+  ackSnapshot(tick: number) {
+    this.socket.emit('snapshotAck', tick);
+  }
+
+  shoot(angle: number) {
+    this.socket.emit('shoot', { angle });
   }
 
-  shoot(x: number, y: number, angle: number) {
-    this.socket.emit('shoot', { x, y, angle });
+  useAbility(angle: number) {
+    this.socket.emit('useAbility', { angle });
   }
 
   selectUpgrade(upgradeId: string) {
     this.socket.emit('selectUpgrade', upgradeId);
   }
 
+  rerollUpgrades() {
+    this.socket.emit('rerollUpgrades');
+  }
+
+  banishUpgrade(upgradeId: string) {
+    this.socket.emit('banishUpgrade', upgradeId);
+  }
+
+  skipUpgrade() {
+    this.socket.emit('skipUpgrade');
+  }
+
   respawn() {
     this.socket.emit('respawn');
   }
@@ -132,14 +242,26 @@ export class GameService {
     return this.playerId;
   }
 
-  getSocket(): Socket {
+  getSocket(): Socket<ServerToClientEvents, ClientToServerEvents> {
     return this.socket;
   }
 
-  onGameState(): Observable<{ players: Player[], bullets: Bullet[], orbs: Orb[] }> {
+  onRoomJoined(): Observable<RoomInfo | null> {
+    return this.roomJoinedSubject.asObservable();
+  }
+
+  onRoomError(): Observable<RoomErrorPayload> {
+    return this.roomErrorSubject.asObservable();
+  }
+
+  onGameState(): Observable<GameStatePayload | null> {
     return this.gameStateSubject.asObservable();
   }
 
+  onMapsAvailable(): Observable<MapSummary[]> {
+    return this.mapsAvailableSubject.asObservable();
+  }
+
   onPlayerJoined(): Observable<Player | null> {
     return this.playerJoinedSubject.asObservable();
   }
@@ -148,10 +270,6 @@ export class GameService {
     return this.playerLeftSubject.asObservable();
   }
 
-  onPlayerMoved(): Observable<Player | null> {
-    return this.playerMovedSubject.asObservable();
-  }
-
   onBulletShot(): Observable<Bullet | null> {
     return this.bulletShotSubject.asObservable();
   }
@@ -160,6 +278,14 @@ export class GameService {
     return this.bulletRemovedSubject.asObservable();
   }
 
+  onAbilityUsed(): Observable<AbilityUsedPayload> {
+    return this.abilityUsedSubject.asObservable();
+  }
+
+  onBulletExploded(): Observable<BulletExplodedPayload> {
+    return this.bulletExplodedSubject.asObservable();
+  }
+
   onOrbSpawned(): Observable<Orb | null> {
     return this.orbSpawnedSubject.asObservable();
   }
@@ -168,11 +294,15 @@ export class GameService {
     return this.orbCollectedSubject.asObservable();
   }
 
-  onLevelUpOptions(): Observable<Upgrade[] | null> {
+  onLevelUpOptions(): Observable<LevelUpOptionsPayload | null> {
     return this.levelUpOptionsSubject.asObservable();
   }
 
-  onPlayerImmunity(): Observable<{ id: string, immuneUntil: number } | null> {
+  onLevelUpResolved(): Observable<LevelUpResolvedPayload> {
+    return this.levelUpResolvedSubject.asObservable();
+  }
+
+  onPlayerImmunity(): Observable<PlayerImmunityPayload | null> {
     return this.playerImmunitySubject.asObservable();
   }
 
@@ -180,10 +310,34 @@ export class GameService {
     return this.playerDiedSubject.asObservable();
   }
 
-  onPlayerExpUpdate(): Observable<any | null> {
+  onWorldSnapshot(): Observable<WorldSnapshotPayload> {
+    return this.worldSnapshotSubject.asObservable();
+  }
+
+  onEntitiesEntered(): Observable<EntitiesPayload> {
+    return this.entitiesEnteredSubject.asObservable();
+  }
+
+  onEntitiesLeft(): Observable<EntitiesLeftPayload> {
+    return this.entitiesLeftSubject.asObservable();
+  }
+
+  onPlayerExpUpdate(): Observable<PlayerExpUpdatePayload | null> {
     return this.playerExpUpdateSubject.asObservable();
   }
 
+  onWaveStarted(): Observable<WaveStartedPayload> {
+    return this.waveStartedSubject.asObservable();
+  }
+
+  onBossStatus(): Observable<BossStatusPayload> {
+    return this.bossStatusSubject.asObservable();
+  }
+
+  onBossDefeated(): Observable<BossDefeatedPayload> {
+    return this.bossDefeatedSubject.asObservable();
+  }
+
   // Enemy Events
   onEnemySpawned(): Observable<Enemy | null> {
     return new Observable(observer => {
@@ -191,12 +345,6 @@ export class GameService {
     });
   }
 
-  onEnemiesMoved(): Observable<Enemy[] | null> {
-    return new Observable(observer => {
-      this.socket.on('enemiesMoved', (enemies) => observer.next(enemies));
-    });
-  }
-
   onEnemyDied(): Observable<string | null> {
     return new Observable(observer => {
       this.socket.on('enemyDied', (id) => observer.next(id));
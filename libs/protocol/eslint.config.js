@@ -0,0 +1,5 @@
+const baseConfig = require("../../eslint.config.js");
+
+module.exports = [
+    ...baseConfig
+];
@@ -0,0 +1,6 @@
+export * from './lib/ballistics';
+export * from './lib/effects';
+export * from './lib/entities';
+export * from './lib/events';
+export * from './lib/map';
+export * from './lib/snapshot';
@@ -0,0 +1,82 @@
+import { Bullet, Obstacle } from './entities';
+
+/**
+ * Bullets collide as circles this big, on the server and in client prediction
+ * alike, unless they were fired with a `radius` of their own.
+ */
+export const BULLET_RADIUS = 5;
+
+/**
+ * Moves a bullet `dt` seconds along its heading. If that runs it into an arena
+ * edge or an obstacle, a bullet with bounces left is mirrored off the face it
+ * came in through and spends a bounce; any other bullet is blocked and false
+ * is returned. `obstacles` only needs to hold the ones near the bullet.
+ */
+export function moveBullet(
+  bullet: Pick<Bullet, 'x' | 'y' | 'angle' | 'speed' | 'bounces' | 'radius'>,
+  dt: number,
+  arena: { width: number; height: number },
+  obstacles: Iterable<Obstacle>,
+): boolean {
+  const fromX = bullet.x;
+  const fromY = bullet.y;
+  const x = fromX + Math.cos(bullet.angle) * bullet.speed * dt;
+  const y = fromY + Math.sin(bullet.angle) * bullet.speed * dt;
+  const walls = [...obstacles];
+  const r = bullet.radius ?? BULLET_RADIUS;
+
+  bullet.x = x;
+  bullet.y = y;
+  if (!blocked(x, y, r, arena, walls)) return true;
+  if (!bullet.bounces) return false;
+
+  let mirrorX: number | null = null;
+  let mirrorY: number | null = null;
+  if (x < r) mirrorX = r;
+  if (x > arena.width - r) mirrorX = arena.width - r;
+  if (y < r) mirrorY = r;
+  if (y > arena.height - r) mirrorY = arena.height - r;
+
+  for (const o of walls) {
+    if (!touches(o, x, y, r)) continue;
+    // The faces the bullet crossed are the ones it started outside of.
+    const left = o.x - r;
+    const right = o.x + o.width + r;
+    const top = o.y - r;
+    const bottom = o.y + o.height + r;
+    const side = fromX <= left || fromX >= right;
+    const end = fromY <= top || fromY >= bottom;
+    if (side || !end) mirrorX = fromX <= left ? left : right;
+    if (end || !side) mirrorY = fromY <= top ? top : bottom;
+  }
+
+  let angle = bullet.angle;
+  if (mirrorX !== null) {
+    bullet.x = 2 * mirrorX - x;
+    angle = Math.PI - angle;
+  }
+  if (mirrorY !== null) {
+    bullet.y = 2 * mirrorY - y;
+    angle = -angle;
+  }
+  bullet.angle = Math.atan2(Math.sin(angle), Math.cos(angle));
+  bullet.bounces -= 1;
+
+  // Bouncing straight into something else, e.g. in a narrow gap: turn around where it was.
+  if (blocked(bullet.x, bullet.y, r, arena, walls)) {
+    bullet.x = fromX;
+    bullet.y = fromY;
+  }
+  return true;
+}
+
+function blocked(x: number, y: number, r: number, arena: { width: number; height: number }, obstacles: Obstacle[]): boolean {
+  if (x < r || x > arena.width - r || y < r || y > arena.height - r) return true;
+  return obstacles.some(o => touches(o, x, y, r));
+}
+
+function touches(o: Obstacle, x: number, y: number, r: number): boolean {
+  const dx = x - Math.max(o.x, Math.min(x, o.x + o.width));
+  const dy = y - Math.max(o.y, Math.min(y, o.y + o.height));
+  return dx * dx + dy * dy < r * r;
+}
@@ -0,0 +1,27 @@
+/** Timed conditions a hit can leave on a tank or an enemy. */
+export type StatusEffectKind = 'burn' | 'slow' | 'poison' | 'stun';
+
+export const STATUS_EFFECT_KINDS: StatusEffectKind[] = ['burn', 'slow', 'poison', 'stun'];
+
+/** How fast anything under the effect moves; effects not listed leave movement alone. */
+export const EFFECT_SPEED_MULTIPLIERS: Partial<Record<StatusEffectKind, number>> = {
+  slow: 0.6,
+  stun: 0,
+};
+
+export function effectSpeedMultiplier(kinds: Iterable<StatusEffectKind>): number {
+  let multiplier = 1;
+  for (const kind of kinds) multiplier *= EFFECT_SPEED_MULTIPLIERS[kind] ?? 1;
+  return multiplier;
+}
+
+/** Effects travel in snapshots as one bit per kind, in `STATUS_EFFECT_KINDS` order. */
+export function effectMask(kinds: Iterable<StatusEffectKind>): number {
+  let mask = 0;
+  for (const kind of kinds) mask |= 1 << STATUS_EFFECT_KINDS.indexOf(kind);
+  return mask;
+}
+
+export function effectKinds(mask: number): StatusEffectKind[] {
+  return STATUS_EFFECT_KINDS.filter((_, i) => mask & (1 << i));
+}
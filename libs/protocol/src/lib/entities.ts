@@ -0,0 +1,127 @@
+import { StatusEffectKind } from './effects';
+
+export type UpgradeRarity = 'Common' | 'Uncommon' | 'Rare' | 'Epic' | 'Legendary';
+
+/** The gun a tank carries; everything but the cannon comes from an upgrade. */
+export type WeaponKind = 'cannon' | 'missile' | 'mine' | 'flamethrower' | 'laser';
+
+/**
+ * What a bullet is. Shells fly straight, missiles turn towards `targetId`,
+ * mines fly for `flightMs` and then sit until something sets them off.
+ * Flames and lasers hit the moment they are fired and only linger to be drawn.
+ */
+export type ProjectileKind = 'shell' | 'missile' | 'mine' | 'flame' | 'laser';
+
+/** What a tank's ability key does: the dash, until an upgrade swaps it for another. */
+export type AbilityKind = 'dash' | 'shield' | 'overcharge';
+
+/** Overcharge's cut to the fire rate cooldown; clients hold their own shots to it too. */
+export const OVERCHARGE_FIRE_RATE_MULTIPLIER = 0.5;
+
+/** The hull a human picks before joining; bots all drive the standard one. */
+export type ChassisKind = 'standard' | 'scout' | 'heavy' | 'artillery';
+
+export const CHASSIS_KINDS: ChassisKind[] = ['standard', 'scout', 'heavy', 'artillery'];
+
+export interface PlayerStats {
+  maxHp: number;
+  fireRate: number; // ms cooldown
+  bulletCount: number;
+  bulletDamage: number;
+  bulletSpeed: number; // px/sec
+  bulletRadius: number; // px; shells and missiles collide as circles this big
+  moveSpeed: number; // px/sec
+  pickupRange: number;
+  rearGuard: boolean;
+  bulletLifeTime: number; // ms
+  spreadAngle: number; // degrees
+  regenRate: number; // hp per sec
+  weapon: WeaponKind;
+  pierce: number; // targets a bullet passes through before it stops
+  bounces: number; // times a bullet ricochets off walls before it stops
+  hitEffects: StatusEffectKind[]; // put on whatever the tank's shots hit
+  ability: AbilityKind;
+}
+
+export interface Upgrade {
+  id: string;
+  name: string;
+  description: string;
+  rarity: UpgradeRarity;
+  /** Unlocked by owning a combination of other upgrades. */
+  evolution?: boolean;
+}
+
+export interface Player {
+  id: string;
+  x: number;
+  y: number;
+  angle: number;
+  color: string;
+  hp: number;
+  maxHp: number;
+  exp: number;
+  level: number;
+  maxExp: number;
+  chassis: ChassisKind;
+  stats: PlayerStats;
+  immuneUntil: number; // epoch ms
+  pendingLevelUp: boolean;
+  upgrades: Upgrade[];
+  isBot?: boolean;
+}
+
+export interface Bullet {
+  id: string;
+  kind: ProjectileKind;
+  x: number;
+  y: number;
+  angle: number;
+  playerId: string; // the enemy's id when `hostile`
+  hostile?: boolean; // fired by an enemy; hurts players only
+  damage: number;
+  speed: number; // px/sec
+  ttl: number; // ms remaining
+  targetId?: string; // missiles: the player or enemy it homes in on
+  turnRate?: number; // missiles: rad/sec
+  flightMs?: number; // mines: ms left before it lands
+  blastRadius?: number; // mines
+  length?: number; // lasers: how far the beam reached; flames: how far the cone reaches
+  arc?: number; // flames: width of the cone, radians
+  pierce?: number; // targets it can still pass through
+  bounces?: number; // ricochets it has left
+  radius?: number; // shells and missiles fired bigger than BULLET_RADIUS
+}
+
+export interface Orb {
+  id: string;
+  x: number;
+  y: number;
+  value: number;
+}
+
+export type EnemyType = 'grunt' | 'ranged' | 'charger' | 'splitter' | 'splitling' | 'brute' | 'boss';
+
+/** Where a charger or boss is in its charge: walking in, telegraphing, or dashing. */
+export type EnemyPhase = 'stalk' | 'windup' | 'dash';
+
+export interface Enemy {
+  id: string;
+  type: EnemyType;
+  phase?: EnemyPhase; // chargers and bosses only
+  x: number;
+  y: number;
+  hp: number;
+  maxHp: number;
+  speed: number;
+  size: number;
+  damage: number;
+  expValue: number;
+}
+
+export interface Obstacle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
@@ -0,0 +1,259 @@
+import { AbilityKind, Bullet, ChassisKind, Enemy, EnemyPhase, EnemyType, Orb, Player, PlayerStats, Upgrade } from './entities';
+import { GameMap, MapSummary } from './map';
+
+export interface EntitiesPayload {
+  players: Player[];
+  bullets: Bullet[];
+  orbs: Orb[];
+  enemies: Enemy[];
+}
+
+/** The join handshake: the map the room runs plus everything near the new tank. */
+export interface GameStatePayload extends EntitiesPayload {
+  map: GameMap;
+}
+
+export interface PlayerHitPayload {
+  id: string;
+  hp: number;
+  maxHp: number;
+  x: number;
+  y: number;
+}
+
+export interface PlayerImmunityPayload {
+  id: string;
+  immuneUntil: number;
+}
+
+export interface PlayerExpUpdatePayload {
+  id: string;
+  exp: number;
+  maxExp: number;
+  level: number;
+  hp: number;
+  maxHp: number;
+  stats?: PlayerStats;
+  upgrades?: Upgrade[];
+}
+
+/** The cards on offer plus what the player can still do about them this life. */
+export interface LevelUpOptionsPayload {
+  options: Upgrade[];
+  rerolls: number;
+  banishes: number;
+  skipExp: number; // exp paid out for taking no upgrade
+  autoPickAt: number; // epoch ms; the first card is taken for the player then
+  reward?: boolean; // a bonus pick for beating a boss; does not use up a level
+}
+
+/** The level up is over, by choice or by timeout; `upgradeId` is null when skipped. */
+export interface LevelUpResolvedPayload {
+  upgradeId: string | null;
+}
+
+/**
+ * The boss every HUD tracks, wherever it is in the arena. `stage` counts up
+ * from 1 as its hp falls and its attack pattern gets nastier.
+ */
+export interface BossStatusPayload {
+  id: string;
+  name: string;
+  hp: number;
+  maxHp: number;
+  stage: number;
+  stages: number;
+}
+
+/** A new wave: enemies get tougher from here on, and `newTypes` join the mix. */
+export interface WaveStartedPayload {
+  wave: number;
+  newTypes: EnemyType[];
+  hpMultiplier: number;
+  damageMultiplier: number;
+}
+
+/** The boss is dead; `topDamagerId` earned the reward pick, if still around. */
+export interface BossDefeatedPayload {
+  id: string;
+  topDamagerId: string | null;
+}
+
+/** A mine went off; `bulletRemoved` follows. */
+export interface BulletExplodedPayload {
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/** A tank used its ability. Times are epoch ms; `activeUntil` is when a shield or overcharge runs out. */
+export interface AbilityUsedPayload {
+  id: string;
+  ability: AbilityKind;
+  cooldownMs: number;
+  readyAt: number;
+  activeUntil: number;
+}
+
+export interface RoomInfo {
+  code: string;
+  isPrivate: boolean;
+  mapId: string;
+  bots: RoomBotSettings;
+}
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+/** How many bots a room fills up with and how they are spread over the difficulties. */
+export interface RoomBotSettings {
+  count: number;
+  mix: Record<BotDifficulty, number>; // relative shares, e.g. { easy: 1, normal: 2, hard: 1 }
+}
+
+export interface RoomErrorPayload {
+  message: string;
+}
+
+export interface CreateRoomRequest {
+  mapId?: string; // omitted for the server's default map
+  bots?: Partial<RoomBotSettings>; // anything omitted keeps the server's default
+  chassis?: ChassisKind; // omitted for the standard one
+}
+
+export interface JoinRoomRequest {
+  code?: string; // omitted to join the public arena
+  chassis?: ChassisKind; // omitted for the standard one
+}
+
+/**
+ * Movement intent for one client frame: a direction (each axis in -1..1),
+ * the aim angle and how long the client held it. The server decides where
+ * that actually takes the tank.
+ */
+export interface PlayerMoveInput {
+  seq: number; // increases with every input a client sends
+  dx: number;
+  dy: number;
+  angle: number;
+  dt: number; // ms
+}
+
+/**
+ * Authoritative position of the local tank once every input up to `seq` has
+ * been applied. The client rewinds to it and replays the inputs sent since.
+ */
+export interface InputAckPayload {
+  seq: number;
+  x: number;
+  y: number;
+}
+
+/** Ids of entities that moved out of a client's area of interest. */
+export interface EntitiesLeftPayload {
+  players: string[];
+  enemies: string[];
+  orbs: string[];
+  bullets: string[];
+}
+
+/** A tank as carried in snapshots; position and angle are quantized. */
+export interface PlayerSnapshot {
+  id: string;
+  x: number;
+  y: number;
+  angle: number;
+  hp: number;
+  maxHp: number;
+  exp: number;
+  level: number;
+  maxExp: number;
+  effects: number; // status effects as an `effectMask`
+}
+
+/** An enemy as carried in snapshots; the rest of it is sent once in `enemySpawned`. */
+export interface EnemySnapshot {
+  id: string;
+  x: number;
+  y: number;
+  hp: number;
+  phase?: EnemyPhase;
+  effects: number; // status effects as an `effectMask`
+}
+
+/**
+ * The entities that differ from the snapshot at `baseTick`, the last one this
+ * client acknowledged, plus those that disappeared since. A `baseTick` of -1
+ * means a full snapshot. `input` is unquantized so reconciliation stays exact.
+ */
+export interface WorldSnapshotPayload {
+  tick: number;
+  baseTick: number;
+  players: PlayerSnapshot[];
+  enemies: EnemySnapshot[];
+  removedPlayers: string[];
+  removedEnemies: string[];
+  input?: InputAckPayload;
+}
+
+/** The server fires from its own muzzle position; only the aim is client-controlled. */
+export interface ShootInput {
+  angle: number;
+}
+
+/** Dashes head this way; the other abilities ignore it. */
+export interface AbilityInput {
+  angle: number;
+}
+
+/** Events the server emits, as socket.io listener signatures. */
+export interface ServerToClientEvents {
+  mapsAvailable: (maps: MapSummary[]) => void;
+  roomJoined: (room: RoomInfo) => void;
+  roomError: (error: RoomErrorPayload) => void;
+  gameState: (state: GameStatePayload) => void;
+  playerJoined: (player: Player) => void;
+  playerLeft: (playerId: string) => void;
+  playerHit: (hit: PlayerHitPayload) => void;
+  worldSnapshot: (snapshot: WorldSnapshotPayload) => void;
+  entitiesEntered: (entities: EntitiesPayload) => void;
+  entitiesLeft: (entities: EntitiesLeftPayload) => void;
+  playerDied: () => void;
+  playerImmunity: (immunity: PlayerImmunityPayload) => void;
+  playerExpUpdate: (update: PlayerExpUpdatePayload) => void;
+  levelUpOptions: (offer: LevelUpOptionsPayload) => void;
+  levelUpResolved: (resolution: LevelUpResolvedPayload) => void;
+  abilityUsed: (use: AbilityUsedPayload) => void;
+  bulletShot: (bullet: Bullet) => void;
+  bulletRemoved: (bulletId: string) => void;
+  bulletExploded: (explosion: BulletExplodedPayload) => void;
+  orbSpawned: (orb: Orb) => void;
+  orbCollected: (orbId: string) => void;
+  enemySpawned: (enemy: Enemy) => void;
+  enemyDied: (enemyId: string) => void;
+  waveStarted: (wave: WaveStartedPayload) => void;
+  bossStatus: (boss: BossStatusPayload) => void;
+  bossDefeated: (result: BossDefeatedPayload) => void;
+}
+
+/** Events the client emits, as socket.io listener signatures. */
+export interface ClientToServerEvents {
+  createRoom: (request: CreateRoomRequest) => void;
+  joinRoom: (request: JoinRoomRequest) => void;
+  leaveRoom: () => void;
+  playerMove: (move: PlayerMoveInput) => void;
+  snapshotAck: (tick: number) => void;
+  shoot: (shot: ShootInput) => void;
+  useAbility: (input: AbilityInput) => void;
+  selectUpgrade: (upgradeId: string) => void;
+  rerollUpgrades: () => void;
+  banishUpgrade: (upgradeId: string) => void;
+  skipUpgrade: () => void;
+  respawn: () => void;
+  debugLevelUp: () => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+
+/** Payload carried by a server event; `undefined` for events without one. */
+export type ServerEventPayload<K extends ServerEventName> = Parameters<ServerToClientEvents[K]>[0];
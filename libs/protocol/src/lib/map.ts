@@ -0,0 +1,37 @@
+import { Obstacle } from './entities';
+
+/** Bumped whenever the shape of map files changes incompatibly. */
+export const MAP_FORMAT_VERSION = 1;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * An arena as stored in a map file and sent to clients on join. Empty spawn
+ * point or zone lists mean "anywhere on the map that is not blocked".
+ */
+export interface GameMap {
+  version: number;
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  obstacles: Obstacle[];
+  spawnPoints: MapPoint[];
+  orbZones: MapZone[];
+  enemyZones: MapZone[];
+}
+
+export interface MapSummary {
+  id: string;
+  name: string;
+}
@@ -0,0 +1,36 @@
+import { EnemySnapshot, PlayerSnapshot, WorldSnapshotPayload } from './events';
+
+/** The full world a snapshot describes, rebuilt on the client or kept as a baseline on the server. */
+export interface SnapshotFrame {
+  tick: number;
+  players: Map<string, PlayerSnapshot>;
+  enemies: Map<string, EnemySnapshot>;
+}
+
+/** Positions travel with 0.1px precision, angles with 0.001rad. */
+export function quantizePosition(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function quantizeAngle(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Applies a delta snapshot to the frame it was encoded against. Returns null
+ * when `base` is not that frame, in which case the snapshot must not be acked.
+ */
+export function applySnapshot(base: SnapshotFrame | undefined, snapshot: WorldSnapshotPayload): SnapshotFrame | null {
+  const full = snapshot.baseTick < 0;
+  if (!full && base?.tick !== snapshot.baseTick) return null;
+
+  const players = new Map(full || !base ? [] : base.players);
+  const enemies = new Map(full || !base ? [] : base.enemies);
+
+  snapshot.removedPlayers.forEach(id => players.delete(id));
+  snapshot.removedEnemies.forEach(id => enemies.delete(id));
+  snapshot.players.forEach(p => players.set(p.id, p));
+  snapshot.enemies.forEach(e => enemies.set(e.id, e));
+
+  return { tick: snapshot.tick, players, enemies };
+}